@@ -0,0 +1,108 @@
+// Moments marked with the "mark" hotkey while the buffer rolls. Each bookmark is pinned to
+// the buffer's byte position and the newest video PTS at that moment, so it's evicted with
+// the data it points into and lands on the right frame of any clip cut from the buffer.
+
+import * as fs from 'fs';
+import { PTS_HZ } from './mpegts';
+import { ClipBookmark } from '../shared/clips';
+import { isRecord } from '../shared/config';
+
+export interface Bookmark {
+    // replayBuffer.endOffset when marked
+    offset: number;
+    // Unwrapped video PTS when marked; null if nothing had been indexed yet
+    pts: number | null;
+    // Wall-clock time, for placing bookmarks without a PTS
+    time: number;
+    // Empty when the hotkey has no label; numbered per clip on save
+    label: string;
+}
+
+// The part of the buffer a clip was cut from
+export interface ClipWindow {
+    // PTS of the clip's first keyframe, or null when the save fell back to seeking by time
+    startPts: number | null;
+    duration: number;
+    // Wall-clock time of the clip's last frame
+    endTime: number;
+}
+
+export function createBookmarkList() {
+    let bookmarks: Bookmark[] = [];
+    return {
+        get bookmarks(): readonly Bookmark[] { return bookmarks; },
+        add(bookmark: Bookmark) {
+            bookmarks.push(bookmark);
+        },
+        // Same rule as the keyframe index: anything before the oldest kept byte is gone
+        evict(startOffset: number) {
+            if (bookmarks.length && bookmarks[0].offset < startOffset) bookmarks = bookmarks.filter(b => b.offset >= startOffset);
+        },
+        clear() {
+            bookmarks = [];
+        }
+    };
+}
+
+// Bookmarks that fall inside the clip, as seconds from its start
+export function bookmarksInClip(bookmarks: readonly Bookmark[], clip: ClipWindow): ClipBookmark[] {
+    const result: ClipBookmark[] = [];
+    for (const b of bookmarks) {
+        const time = clip.startPts !== null && b.pts !== null
+            ? (b.pts - clip.startPts) / PTS_HZ
+            : clip.duration - (clip.endTime - b.time) / 1000;
+        if (time < 0 || time > clip.duration) continue;
+        result.push({ time: Math.round(time * 1000) / 1000, label: b.label || `Mark ${result.length + 1}` });
+    }
+    return result;
+}
+
+// ;=#\ and newlines are special in FFMETADATA values
+function escapeMetadata(value: string) {
+    return value.replace(/[=;#\\\n]/g, c => `\\${c}`);
+}
+
+// FFMETADATA file with one chapter per bookmark, each running until the next one. Video
+// before the first bookmark gets its own chapter so players don't show it as part of nothing.
+export function chapterMetadata(bookmarks: ClipBookmark[], duration: number) {
+    const chapters = bookmarks[0]?.time > 0 ? [{ time: 0, label: 'Start' }, ...bookmarks] : bookmarks;
+    const lines = [';FFMETADATA1'];
+    chapters.forEach((c, i) => {
+        const end = i + 1 < chapters.length ? chapters[i + 1].time : duration;
+        lines.push('[CHAPTER]', 'TIMEBASE=1/1000', `START=${Math.round(c.time * 1000)}`,
+            `END=${Math.round(Math.max(end, c.time) * 1000)}`, `title=${escapeMetadata(c.label)}`);
+    });
+    return lines.join('\n') + '\n';
+}
+
+// Clip.mp4 -> Clip.bookmarks.json, next to the clip
+export function bookmarkSidecarPath(clipFile: string) {
+    return clipFile.replace(/\.mp4$/i, '.bookmarks.json');
+}
+
+export function writeBookmarks(clipFile: string, bookmarks: ClipBookmark[]) {
+    const sidecar = bookmarkSidecarPath(clipFile);
+    if (bookmarks.length === 0) {
+        try { fs.unlinkSync(sidecar); } catch (e) { /* none */ }
+        return;
+    }
+    fs.writeFileSync(sidecar, JSON.stringify({ bookmarks }, null, 2));
+}
+
+// A sidecar entry with a usable time; the label is coerced to a string
+function isStoredBookmark(v: unknown): v is { time: number, label?: unknown } {
+    return isRecord(v) && typeof v.time === 'number' && v.time >= 0;
+}
+
+// A missing or unreadable sidecar just means no bookmarks
+export function readBookmarks(clipFile: string): ClipBookmark[] {
+    try {
+        const raw: unknown = JSON.parse(fs.readFileSync(bookmarkSidecarPath(clipFile), 'utf8'));
+        if (!isRecord(raw) || !Array.isArray(raw.bookmarks)) return [];
+        return raw.bookmarks
+            .filter(isStoredBookmark)
+            .map(b => ({ time: b.time, label: String(b.label ?? '') }));
+    } catch (e) {
+        return [];
+    }
+}
@@ -0,0 +1,11 @@
+import { createMemoryBuffer } from './memory';
+import { createSegmentRing } from './segments';
+import { BufferMode, ReplayBuffer } from './types';
+
+export * from './types';
+export { SEGMENT_SECONDS, INDEX_FILE, readSegmentIndex, readSegments } from './segments';
+export type { Segment } from './segments';
+
+export function createReplayBuffer(mode: BufferMode | string, ringDir: string): ReplayBuffer {
+    return mode === 'disk' ? createSegmentRing(ringDir) : createMemoryBuffer();
+}
@@ -0,0 +1,53 @@
+import { Readable } from 'stream';
+import { ReplayBuffer } from './types';
+
+// Safety cap so a long buffer at high bitrate can't exhaust RAM
+const HARD_LIMIT = 2.5 * 1024 * 1024 * 1024;
+
+export function createMemoryBuffer(): ReplayBuffer {
+    let chunks: { time: number, offset: number, chunk: Buffer }[] = [];
+    let startOffset = 0;
+    let endOffset = 0;
+
+    return {
+        mode: 'memory',
+        get startOffset() { return startOffset; },
+        get endOffset() { return endOffset; },
+        get totalBytes() { return endOffset - startOffset; },
+        get startTime() { return chunks.length ? chunks[0].time : 0; },
+
+        append(chunk, time) {
+            // FFmpeg reuses stdout buffers, keep our own copy
+            const copy = Buffer.allocUnsafe(chunk.length);
+            chunk.copy(copy);
+            chunks.push({ time, offset: endOffset, chunk: copy });
+            endOffset += copy.length;
+        },
+
+        evict(cutoff) {
+            let removeCount = 0;
+            while (removeCount < chunks.length - 2 && (chunks[removeCount].time < cutoff || endOffset - startOffset > HARD_LIMIT)) {
+                startOffset += chunks[removeCount].chunk.length;
+                removeCount++;
+            }
+            if (removeCount > 0) {
+                chunks = chunks.slice(removeCount);
+            }
+        },
+
+        read(from, to) {
+            // Evicting only drops our references, so holding these keeps the data alive
+            const selected = chunks.filter(c => c.offset + c.chunk.length > from && c.offset < to);
+            return Readable.from((function* () {
+                for (const c of selected) {
+                    yield c.chunk.subarray(Math.max(0, from - c.offset), Math.min(c.chunk.length, to - c.offset));
+                }
+            })());
+        },
+
+        clear() {
+            chunks = [];
+            startOffset = endOffset = 0;
+        }
+    };
+}
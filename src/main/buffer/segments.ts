@@ -0,0 +1,170 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { Readable } from 'stream';
+import { ReplayBuffer } from './types';
+
+// Each segment file covers this much wall-clock time; eviction works in whole segments
+export const SEGMENT_SECONDS = 10;
+export const INDEX_FILE = 'index.json';
+
+export interface Segment {
+    file: string;
+    // Wall-clock time the first chunk of the segment arrived
+    start: number;
+    // Global byte offset of the segment's first byte
+    offset: number;
+    bytes: number;
+}
+
+export interface SegmentIndex {
+    version: 1;
+    segments: Segment[];
+}
+
+// Writes via a temp file + rename so a crash never leaves a half-written index
+function writeIndex(dir: string, segments: Segment[]) {
+    const indexPath = path.join(dir, INDEX_FILE);
+    const index: SegmentIndex = { version: 1, segments };
+    try {
+        fs.writeFileSync(indexPath + '.tmp', JSON.stringify(index));
+        fs.renameSync(indexPath + '.tmp', indexPath);
+    } catch (e) {
+        console.error('Failed to write segment index:', e);
+    }
+}
+
+// Reads a ring left behind by a previous session. Sizes come from the files themselves,
+// since the index is only rewritten on rotation and the last segment kept growing.
+export function readSegmentIndex(dir: string): Segment[] {
+    try {
+        const index: SegmentIndex = JSON.parse(fs.readFileSync(path.join(dir, INDEX_FILE), 'utf8'));
+        return index.segments
+            .filter(s => fs.existsSync(path.join(dir, s.file)))
+            .map(s => ({ ...s, bytes: fs.statSync(path.join(dir, s.file)).size }));
+    } catch (e) {
+        return [];
+    }
+}
+
+// Streams whole segment files back to back, optionally limited to a global byte range.
+// `onRelease` gets each segment's file once the stream is done with it: read through, or
+// skipped because the stream closed early.
+export function readSegments(dir: string, segments: Segment[], from = 0, to = Infinity, onRelease?: (file: string) => void): Readable {
+    const selected = segments.filter(s => s.offset + s.bytes > from && s.offset < to);
+    const unreleased = new Set(selected.map(s => s.file));
+    const release = (file: string) => {
+        if (unreleased.delete(file) && onRelease) onRelease(file);
+    };
+    const stream = Readable.from((async function* () {
+        for (const s of selected) {
+            const start = Math.max(0, from - s.offset);
+            const end = Math.min(s.bytes, to - s.offset);
+            if (end > start) yield* fs.createReadStream(path.join(dir, s.file), { start, end: end - 1 });
+            release(s.file);
+        }
+    })());
+    stream.once('close', () => {
+        for (const file of [...unreleased]) release(file);
+    });
+    return stream;
+}
+
+// On-disk ring of fixed-duration MPEG-TS segments. The index in `dir` always describes
+// the live ring, which is what lets a crashed session be recovered on the next launch.
+export function createSegmentRing(dir: string): ReplayBuffer {
+    let segments: Segment[] = [];
+    let fd: number | null = null;
+    let seq = 0;
+    let endOffset = 0;
+    // Segment file -> read streams that still need it. Eviction and clear() leave a pinned file in
+    // place (retired) and it's deleted when the last of them lets go, so a save gets the data it
+    // asked for however long it waits in the queue, while the rest of the ring keeps rolling.
+    const pins = new Map<string, number>();
+    const retired = new Set<string>();
+    // Files a reader still holds from an earlier ring in the same folder must not be reused
+    const prefix = `seg_${Date.now().toString(36)}_`;
+
+    const closeCurrent = () => {
+        if (fd !== null) {
+            try { fs.closeSync(fd); } catch (e) { /* ignore */ }
+            fd = null;
+        }
+    };
+
+    const remove = (file: string) => {
+        if (pins.has(file)) {
+            retired.add(file);
+            return;
+        }
+        try { fs.unlinkSync(path.join(dir, file)); } catch (e) { /* ignore */ }
+    };
+
+    const unpin = (file: string) => {
+        const count = (pins.get(file) || 0) - 1;
+        if (count > 0) {
+            pins.set(file, count);
+            return;
+        }
+        pins.delete(file);
+        if (retired.delete(file)) remove(file);
+    };
+
+    const rotate = (time: number) => {
+        closeCurrent();
+        const file = `${prefix}${String(seq++).padStart(6, '0')}.ts`;
+        fd = fs.openSync(path.join(dir, file), 'w');
+        segments.push({ file, start: time, offset: endOffset, bytes: 0 });
+        writeIndex(dir, segments);
+    };
+
+    return {
+        mode: 'disk',
+        get startOffset() { return segments.length ? segments[0].offset : endOffset; },
+        get endOffset() { return endOffset; },
+        get totalBytes() { return endOffset - (segments.length ? segments[0].offset : endOffset); },
+        get startTime() { return segments.length ? segments[0].start : 0; },
+
+        append(chunk, time) {
+            const current = segments[segments.length - 1];
+            if (fd === null || !current || time - current.start >= SEGMENT_SECONDS * 1000) {
+                rotate(time);
+            }
+            try {
+                fs.writeSync(fd, chunk);
+            } catch (e) {
+                console.error('Failed to write buffer segment:', e);
+                return;
+            }
+            segments[segments.length - 1].bytes += chunk.length;
+            endOffset += chunk.length;
+        },
+
+        evict(cutoff) {
+            let removeCount = 0;
+            // A segment is stale once the next one started before the cutoff
+            while (removeCount < segments.length - 1 && segments[removeCount + 1].start < cutoff) {
+                remove(segments[removeCount].file);
+                removeCount++;
+            }
+            if (removeCount > 0) {
+                segments = segments.slice(removeCount);
+                writeIndex(dir, segments);
+            }
+        },
+
+        read(from, to) {
+            // Sizes as of now: the newest segment keeps growing, but the range ends here
+            const selected = segments.filter(s => s.offset + s.bytes > from && s.offset < to).map(s => ({ ...s }));
+            for (const s of selected) pins.set(s.file, (pins.get(s.file) || 0) + 1);
+            return readSegments(dir, selected, from, to, unpin);
+        },
+
+        clear() {
+            closeCurrent();
+            for (const s of segments) remove(s.file);
+            try { fs.unlinkSync(path.join(dir, INDEX_FILE)); } catch (e) { /* ignore */ }
+            segments = [];
+            endOffset = 0;
+        }
+    };
+}
@@ -0,0 +1,23 @@
+import { Readable } from 'stream';
+
+export type BufferMode = 'memory' | 'disk';
+
+// A rolling window over the recorder's MPEG-TS output. Byte offsets are global:
+// they count from the first byte of the recording session and never reset on eviction.
+export interface ReplayBuffer {
+    readonly mode: BufferMode;
+    // Global offset of the oldest byte still held, and one past the newest
+    readonly startOffset: number;
+    readonly endOffset: number;
+    readonly totalBytes: number;
+    // Wall-clock time the oldest held data arrived (0 when empty)
+    readonly startTime: number;
+
+    append(chunk: Buffer, time: number): void;
+    // Drops data that arrived before the cutoff; always keeps the newest data
+    evict(cutoff: number): void;
+    // Streams the held bytes in [from, to). They stay readable through evict() and clear() until
+    // the stream has read them or is destroyed, so an unread stream must be destroyed.
+    read(from: number, to: number): Readable;
+    clear(): void;
+}
@@ -0,0 +1,59 @@
+// The renderer's system audio reaches FFmpeg through a local socket FFmpeg opens by name: a
+// named pipe on Windows, a Unix domain socket elsewhere. FFmpeg turns its stdin commands off
+// as soon as any input is a `pipe:`, and the mute gates are driven through those commands.
+
+import * as net from 'net';
+import * as os from 'os';
+import * as path from 'path';
+import { randomBytes } from 'crypto';
+
+export interface AudioSocket {
+    // Input name to give FFmpeg
+    url: string;
+    // Chunks written before FFmpeg connects are held until it does, so the WebM header isn't lost
+    write(chunk: Buffer): void;
+    // Ends the stream, which FFmpeg reads as end of input, and stops listening
+    close(): void;
+}
+
+// Listening once this returns, so FFmpeg can be spawned straight away
+export function createAudioSocket(): AudioSocket {
+    // Unguessable, and only the first connection is served, so nothing else can listen in
+    const name = `shadowarp-audio-${process.pid}-${randomBytes(8).toString('hex')}`;
+    const address = process.platform === 'win32' ? `\\\\.\\pipe\\${name}` : path.join(os.tmpdir(), `${name}.sock`);
+    let client: net.Socket | null = null;
+    let pending: Buffer[] = [];
+    let closed = false;
+
+    const server = net.createServer((socket) => {
+        server.close();
+        if (client || closed) {
+            socket.destroy();
+            return;
+        }
+        client = socket;
+        socket.on('error', (err) => {
+            console.warn('System audio socket error (expected if FFmpeg exited):', err.message);
+        });
+        for (const chunk of pending) socket.write(chunk);
+        pending = [];
+    });
+    server.on('error', (err) => console.error('System audio socket failed:', err.message));
+    server.listen(address);
+
+    return {
+        url: process.platform === 'win32' ? address : `unix:${address}`,
+        write(chunk) {
+            if (closed) return;
+            if (!client) pending.push(chunk);
+            else if (client.writable) client.write(chunk);
+        },
+        close() {
+            if (closed) return;
+            closed = true;
+            pending = [];
+            server.close();
+            client?.end();
+        }
+    };
+}
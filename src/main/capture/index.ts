@@ -0,0 +1,157 @@
+import { CaptureBackend, CaptureBackendId, VideoSource } from './types';
+import { AudioTrackMode, MixerSettings, WebcamLayout } from '../../shared/config';
+import { AudioSourceId } from '../../shared/audio';
+import { windowsBackend } from './windows';
+import { linuxBackend } from './linux';
+import { syntheticBackend } from './synthetic';
+import { encoderArgs } from '../encoders';
+import { sourceFilters, meterFilter } from '../mixer';
+import { webcamOverlayFilters } from './webcam';
+
+export * from './types';
+
+const backends: Record<CaptureBackendId, CaptureBackend> = {
+    windows: windowsBackend,
+    linux: linuxBackend,
+    synthetic: syntheticBackend
+};
+
+// 'auto' picks the native backend for the current platform
+export function getCaptureBackend(id: string): CaptureBackend {
+    if (id in backends) return backends[id as CaptureBackendId];
+    return process.platform === 'win32' ? windowsBackend : process.platform === 'linux' ? linuxBackend : syntheticBackend;
+}
+
+export interface RecordOptions {
+    fps: number;
+    codec: string;
+    bitrate: number;
+    systemAudio: boolean;
+    // Input name of the socket the renderer's system audio arrives through, for 'renderer' backends
+    rendererAudio: string | null;
+    microphone: string | null;
+    audioTrackMode: AudioTrackMode;
+    mixer: MixerSettings;
+    // Whether each source's gate starts open (unmuted)
+    audioGates: Record<AudioSourceId, boolean>;
+    // Device composited over the capture as picture-in-picture; null records the screen alone
+    camera: string | null;
+    webcam: WebcamLayout;
+    // Seconds added to every output timestamp, so a restarted recorder continues the previous clock
+    timestampOffset: number;
+    source: VideoSource;
+    // Downscale to this height (keeping the aspect ratio) when the capture is taller; null keeps it native
+    outputHeight: number | null;
+}
+
+export interface RecordPlan {
+    args: string[];
+    // Title of each output audio track, in order. MPEG-TS can't carry titles,
+    // so saveReplay() re-applies these when remuxing to MP4.
+    audioTracks: string[];
+    // Sources in the graph, whose gates can be switched while recording
+    audioSources: AudioSourceId[];
+    // Index of the camera's input, for telling its errors apart in the log; -1 without one
+    cameraInput: number;
+}
+
+// Builds the full recorder command line: backend inputs, audio mapping and the MPEG-TS encode to stdout
+export function buildRecordArgs(backend: CaptureBackend, opts: RecordOptions): RecordPlan {
+    const encoder = encoderArgs(opts.codec);
+    const args = [
+        '-y',
+        // Machine-readable progress on stderr once a second, instead of the interactive status line
+        '-nostats', '-progress', 'pipe:2', '-stats_period', '1',
+        ...encoder.global
+    ];
+    let inputCount = 0;
+
+    let sysAudioInputIndex = -1;
+    if (opts.systemAudio) {
+        args.push(...backend.systemAudioInput(opts.rendererAudio));
+        sysAudioInputIndex = inputCount++;
+    }
+
+    const videoOptions = { fps: opts.fps, source: opts.source };
+    args.push(...backend.videoInput(videoOptions));
+    const videoInputIndex = inputCount++;
+
+    let micInputIndex = -1;
+    if (opts.microphone) {
+        args.push(...backend.microphoneInput(opts.microphone));
+        micInputIndex = inputCount++;
+    }
+
+    let cameraInputIndex = -1;
+    if (opts.camera) {
+        args.push(...backend.cameraInput(opts.camera));
+        cameraInputIndex = inputCount++;
+    }
+
+    const sources: { id: AudioSourceId, title: string, input: string }[] = [];
+    if (sysAudioInputIndex >= 0) sources.push({ id: 'system', title: 'System', input: `${sysAudioInputIndex}:a` });
+    if (micInputIndex >= 0) sources.push({ id: 'microphone', title: 'Microphone', input: `${micInputIndex}:a` });
+
+    const tracks: { title: string, map: string }[] = [];
+    const filters: string[] = [];
+
+    // Scaling runs on system memory frames: after the backend's download, before any encoder upload
+    const scale = opts.outputHeight ? `scale=-2:'min(ih,${opts.outputHeight})'` : null;
+    const screenFilters = [backend.videoFilter(videoOptions), scale].filter(Boolean);
+    let videoMap = `${videoInputIndex}:v`;
+    if (cameraInputIndex >= 0) {
+        // The camera goes on top of the finished screen image, so the video moves into the filter
+        // graph. Both start their clocks at zero so the overlay lines up with the capture.
+        filters.push(`[${videoInputIndex}:v]${[...screenFilters, 'setpts=PTS-STARTPTS'].join(',')}[screen]`);
+        filters.push(...webcamOverlayFilters(`${cameraInputIndex}:v`, 'screen', opts.webcam, 'composited'));
+        filters.push(`[composited]${encoder.filter || 'null'}[vout]`);
+        videoMap = '[vout]';
+    }
+    const mixed = sources.length > 1 && opts.audioTrackMode !== 'separate';
+    const separate = sources.length === 1 || (sources.length > 1 && opts.audioTrackMode !== 'mixed');
+
+    // Each source gets its gain and filters, then splits into the mix, its own track and its level meter
+    for (const src of sources) {
+        const outputs = [...(mixed ? [`${src.id}_mix`] : []), ...(separate ? [`${src.id}_track`] : []), `${src.id}_meter`];
+        const chain = [...sourceFilters(src.id, opts.mixer, opts.audioGates[src.id]), `asplit=${outputs.length}`];
+        filters.push(`[${src.input}]${chain.join(',')}${outputs.map(o => `[${o}]`).join('')}`);
+        filters.push(`[${src.id}_meter]${meterFilter(src.id)}`);
+    }
+    if (mixed) {
+        // normalize=0 keeps every source at the gain set for it instead of dividing by the number
+        // of inputs; the limiter catches peaks where they add up
+        filters.push(`${sources.map(src => `[${src.id}_mix]`).join('')}amix=inputs=${sources.length}:duration=longest:normalize=0,alimiter=limit=0.97:level=0[aout]`);
+        tracks.push({ title: 'Mixed', map: '[aout]' });
+    }
+    if (separate) tracks.push(...sources.map(src => ({ title: src.title, map: `[${src.id}_track]` })));
+
+    if (filters.length) args.push('-filter_complex', filters.join(';'));
+    // Video stays the first stream
+    args.push('-map', videoMap);
+    for (const track of tracks) args.push('-map', track.map);
+    if (tracks.length) args.push('-c:a', 'aac', '-b:a', '256k');
+    // No audio inputs: no audio mapping needed
+
+    if (cameraInputIndex < 0) {
+        const videoFilters = [...screenFilters, encoder.filter].filter(Boolean);
+        if (videoFilters.length) args.push('-vf', videoFilters.join(','));
+    }
+
+    args.push(
+        // Video encoding
+        '-c:v', opts.codec,
+        ...encoder.output,
+        '-b:v', `${opts.bitrate}M`,
+        // Force constant framerate — prevents variable timing that causes stutters
+        '-vsync', 'cfr',
+        // GOP size: keyframe every 2 seconds
+        '-g', String(opts.fps * 2),
+        ...(opts.timestampOffset > 0 ? ['-output_ts_offset', opts.timestampOffset.toFixed(3)] : []),
+        // Output to TS pipe for memory streaming
+        '-f', 'mpegts',
+        '-mpegts_flags', '+resend_headers',
+        'pipe:1'
+    );
+
+    return { args, audioTracks: tracks.map(t => t.title), audioSources: sources.map(src => src.id), cameraInput: cameraInputIndex };
+}
@@ -0,0 +1,89 @@
+import * as fs from 'fs';
+import { spawn } from 'child_process';
+import { CaptureBackend, Rect, EVEN_SIZE_FILTER } from './types';
+
+// Lists PulseAudio sources. PipeWire exposes the same interface through pipewire-pulse.
+function listPulseSources() {
+    return new Promise<string[]>((resolve) => {
+        const proc = spawn('pactl', ['list', 'short', 'sources']);
+        let output = '';
+        proc.stdout.on('data', d => output += d.toString());
+        proc.on('error', () => resolve([]));
+        proc.on('close', () => {
+            resolve(output.split('\n').map(line => line.split('\t')[1]).filter(Boolean));
+        });
+    });
+}
+
+// V4L2 capture nodes with their names. Cameras often expose a second node for metadata,
+// which has a non-zero index.
+function listV4l2Cameras() {
+    const read = (file: string) => {
+        try { return fs.readFileSync(file, 'utf8').trim(); } catch (e) { return null; }
+    };
+    let nodes: string[] = [];
+    try { nodes = fs.readdirSync('/sys/class/video4linux'); } catch (e) { /* no V4L2 devices */ }
+    return nodes
+        .filter(node => /^video\d+$/.test(node) && (read(`/sys/class/video4linux/${node}/index`) || '0') === '0')
+        .sort((a, b) => parseInt(a.slice(5)) - parseInt(b.slice(5)))
+        .map(node => ({ id: `/dev/${node}`, label: `${read(`/sys/class/video4linux/${node}/name`) || node} (/dev/${node})` }));
+}
+
+// x11grab needs an X server; under a pure Wayland session we fall back to kmsgrab,
+// which reads the framebuffer directly (requires CAP_SYS_ADMIN on the ffmpeg binary).
+const useKmsGrab = () => !process.env.DISPLAY;
+
+// Even sizes, as yuv420p encoders require
+const evenCrop = (r: Rect) => `crop=${r.width & ~1}:${r.height & ~1}:${r.x}:${r.y}`;
+
+export const linuxBackend: CaptureBackend = {
+    id: 'linux',
+    label: 'Linux (X11 / KMS + PulseAudio)',
+    systemAudio: 'ffmpeg',
+    // kmsgrab reads the whole framebuffer, so regions are cropped out after download
+    videoFilter: ({ source }) => {
+        if (!useKmsGrab()) return source.window ? EVEN_SIZE_FILTER : null;
+        const download = 'hwmap=derive_device=vaapi,scale_vaapi=format=nv12,hwdownload,format=nv12';
+        return source.crop ? `${download},${evenCrop(source.crop)}` : download;
+    },
+
+    async listAudioDevices() {
+        // Monitor sources are sink loopbacks, not microphones
+        return (await listPulseSources()).filter(s => !s.endsWith('.monitor'));
+    },
+
+    listCameras: async () => listV4l2Cameras(),
+
+    resolveMicrophone(requested, devices) {
+        if (requested === 'Default') return 'default';
+        return requested && requested !== 'None' && devices.includes(requested) ? requested : null;
+    },
+
+    videoInput: ({ fps, source }) => {
+        if (useKmsGrab()) {
+            return [
+                '-device', '/dev/dri/card0',
+                '-thread_queue_size', '4096',
+                '-f', 'kmsgrab',
+                '-framerate', String(fps),
+                // kmsgrab ignores the input name; "-" would turn off FFmpeg's stdin commands
+                '-i', 'kmsgrab'
+            ];
+        }
+        const grab = ['-thread_queue_size', '4096', '-f', 'x11grab', '-framerate', String(fps), '-draw_mouse', '1'];
+        if (source.window) return [...grab, '-window_id', source.window.id, '-i', process.env.DISPLAY];
+        // x11grab takes the area as a size plus an offset on the X screen
+        const area = source.monitorBounds && (source.crop
+            ? { ...source.crop, x: source.monitorBounds.x + source.crop.x, y: source.monitorBounds.y + source.crop.y }
+            : source.monitorBounds);
+        if (!area) return [...grab, '-i', process.env.DISPLAY];
+        return [...grab, '-video_size', `${area.width & ~1}x${area.height & ~1}`, '-i', `${process.env.DISPLAY}+${area.x},${area.y}`];
+    },
+
+    // Loopback of whatever sink is currently the default output
+    systemAudioInput: () => ['-thread_queue_size', '4096', '-f', 'pulse', '-i', '@DEFAULT_MONITOR@'],
+
+    microphoneInput: (device) => ['-thread_queue_size', '4096', '-f', 'pulse', '-i', device],
+
+    cameraInput: (device) => ['-thread_queue_size', '1024', '-f', 'v4l2', '-i', device]
+};
@@ -0,0 +1,31 @@
+import { CaptureBackend } from './types';
+
+// Generated test pattern and tones. Needs no capture hardware, so the replay buffer
+// can be exercised on any machine (CI, VMs, headless boxes).
+export const syntheticBackend: CaptureBackend = {
+    id: 'synthetic',
+    label: 'Synthetic (test pattern)',
+    systemAudio: 'ffmpeg',
+    // Regions crop the 1280x720 test pattern, so cropping and scaling can be tried without a display
+    videoFilter: ({ source }) => {
+        if (!source.crop) return null;
+        const x = Math.min(source.crop.x, 1280 - 16);
+        const y = Math.min(source.crop.y, 720 - 16);
+        return `crop=${Math.min(source.crop.width, 1280 - x) & ~1}:${Math.min(source.crop.height, 720 - y) & ~1}:${x}:${y}`;
+    },
+
+    listAudioDevices: async () => ['Test Tone'],
+
+    listCameras: async () => [{ id: 'Test Camera', label: 'Test Camera (color bars)' }],
+
+    resolveMicrophone: (requested) => requested === 'None' ? null : 'Test Tone',
+
+    // -re throttles lavfi sources to real time, like a live capture device
+    videoInput: ({ fps }) => ['-re', '-f', 'lavfi', '-i', `testsrc2=size=1280x720:rate=${fps}`],
+
+    systemAudioInput: () => ['-re', '-f', 'lavfi', '-i', 'sine=frequency=440:sample_rate=48000'],
+
+    microphoneInput: () => ['-re', '-f', 'lavfi', '-i', 'sine=frequency=880:sample_rate=48000'],
+
+    cameraInput: () => ['-re', '-f', 'lavfi', '-i', 'smptebars=size=640x480:rate=30']
+};
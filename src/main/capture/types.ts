@@ -0,0 +1,50 @@
+import { CameraInfo } from '../../shared/capture';
+
+export type CaptureBackendId = 'windows' | 'linux' | 'synthetic';
+
+export interface Rect {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+// The configured capture source resolved against the displays connected right now
+export interface VideoSource {
+    // Monitor to capture: its DXGI output index on Windows, its position in the OS's display list elsewhere
+    monitor: number;
+    // That monitor's area on the virtual desktop in physical pixels; null when unknown
+    monitorBounds: Rect | null;
+    // Part of the monitor to capture, relative to its top-left corner; null for all of it
+    crop: Rect | null;
+    // Capture this window instead of a monitor
+    window: { id: string, title: string } | null;
+}
+
+// Windows can have odd sizes, which yuv420p encoders reject
+export const EVEN_SIZE_FILTER = 'crop=trunc(iw/2)*2:trunc(ih/2)*2';
+
+export interface VideoCaptureOptions {
+    fps: number;
+    source: VideoSource;
+}
+
+export interface CaptureBackend {
+    id: CaptureBackendId;
+    label: string;
+    // 'renderer' means system audio arrives as WebM through a local socket (Electron loopback, see
+    // audiosocket.ts). 'ffmpeg' means the backend captures it itself as a regular input.
+    systemAudio: 'renderer' | 'ffmpeg';
+    // Filter applied to the video input before encoding (e.g. downloading hardware frames)
+    videoFilter(opts: VideoCaptureOptions): string | null;
+
+    listAudioDevices(): Promise<string[]>;
+    // Maps the configured microphone ('Default', 'None' or a device name) to a usable device, or null
+    resolveMicrophone(requested: string, devices: string[]): string | null;
+    listCameras(): Promise<CameraInfo[]>;
+    videoInput(opts: VideoCaptureOptions): string[];
+    // `rendererAudio` is the socket's input name for 'renderer' backends
+    systemAudioInput(rendererAudio: string | null): string[];
+    microphoneInput(device: string): string[];
+    cameraInput(device: string): string[];
+}
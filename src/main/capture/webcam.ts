@@ -0,0 +1,42 @@
+// Picture-in-picture webcam overlay for the recorder's filter graph, and spotting the camera
+// dropping out of a running recording in FFmpeg's log.
+
+import { WebcamLayout } from '../../shared/config';
+
+// Gap between the overlay and the frame's edges, in pixels
+const MARGIN = 16;
+
+// Filters that composite the camera onto the screen, reading the labelled pads `camera` and
+// `screen` and writing `output`. The camera is scaled relative to the screen, so the overlay
+// keeps its share of the frame whatever the capture resolution. When the camera stops
+// delivering frames the screen passes through untouched.
+export function webcamOverlayFilters(camera: string, screen: string, layout: WebcamLayout, output: string): string[] {
+    const share = layout.webcamSize / 100;
+    const camChain = ['setpts=PTS-STARTPTS'];
+    if (layout.webcamBorder > 0) {
+        const b = layout.webcamBorder;
+        camChain.push(`pad=w=iw+${b * 2}:h=ih+${b * 2}:x=${b}:y=${b}:color=white`);
+    }
+    if (layout.webcamOpacity < 100) {
+        camChain.push('format=yuva420p', `colorchannelmixer=aa=${(layout.webcamOpacity / 100).toFixed(2)}`);
+    }
+
+    const left = layout.webcamCorner.endsWith('left');
+    const top = layout.webcamCorner.startsWith('top');
+    const x = left ? `${MARGIN}` : `main_w-overlay_w-${MARGIN}`;
+    const y = top ? `${MARGIN}` : `main_h-overlay_h-${MARGIN}`;
+
+    return [
+        // Even dimensions, since most encoders want 4:2:0
+        `[${camera}][${screen}]scale2ref=w=trunc(main_w*${share}/2)*2:h=trunc(ow/a/2)*2[cam_scaled][screen_ref]`,
+        `[cam_scaled]${camChain.join(',')}[cam_styled]`,
+        `[screen_ref][cam_styled]overlay=x=${x}:y=${y}:eof_action=pass[${output}]`
+    ];
+}
+
+// Whether a chunk of FFmpeg log text reports the camera failing: its device name, or its
+// input's log context ("[in#2/dshow @ ...]"), on an error line
+export function cameraError(text: string, device: string, inputIndex: number) {
+    return text.split('\n').some(line =>
+        /error/i.test(line) && (line.includes(device) || line.includes(`[in#${inputIndex}/`)));
+}
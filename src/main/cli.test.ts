@@ -0,0 +1,78 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Server } from 'net';
+import { parseCliArgs, serveCli, sendCliCommand, EXIT_OK, EXIT_FAILED, EXIT_NOT_RUNNING } from './cli';
+
+describe('parseCliArgs', () => {
+    it('is null for a normal launch', () => {
+        expect(parseCliArgs([])).toBeNull();
+        expect(parseCliArgs(['electron', '.', '--inspect=5858'])).toBeNull();
+    });
+
+    it('finds the command among other arguments', () => {
+        expect(parseCliArgs(['electron', '.', '--start'])).toEqual({ name: 'start' });
+        expect(parseCliArgs(['--stop'])).toEqual({ name: 'stop' });
+        expect(parseCliArgs(['--status'])).toEqual({ name: 'status' });
+    });
+
+    it('saves the whole buffer unless given a duration', () => {
+        expect(parseCliArgs(['--save-replay'])).toEqual({ name: 'save-replay', seconds: 0 });
+        expect(parseCliArgs(['--save-replay', '--duration', '30'])).toEqual({ name: 'save-replay', seconds: 30 });
+        expect(parseCliArgs(['--duration=90', '--save-replay'])).toEqual({ name: 'save-replay', seconds: 90 });
+    });
+
+    it('rejects durations that aren\'t positive whole seconds', () => {
+        for (const duration of ['0', '-5', '1.5', 'ten']) {
+            expect(parseCliArgs(['--save-replay', `--duration=${duration}`])).toHaveProperty('error');
+        }
+        expect(parseCliArgs(['--save-replay', '--duration'])).toHaveProperty('error');
+    });
+
+    it('reads the preset name in either form', () => {
+        expect(parseCliArgs(['--preset', 'High quality'])).toEqual({ name: 'preset', preset: 'High quality' });
+        expect(parseCliArgs(['--preset=Low'])).toEqual({ name: 'preset', preset: 'Low' });
+        expect(parseCliArgs(['--preset'])).toEqual({ error: '--preset needs a preset name' });
+        expect(parseCliArgs(['--preset', '--start'])).toHaveProperty('error');
+    });
+
+    it('takes one command at a time', () => {
+        expect(parseCliArgs(['--start', '--status'])).toEqual({ error: 'Only one command at a time, got --start --status' });
+    });
+});
+
+describe('sendCliCommand', () => {
+    let server: Server | null = null;
+    const socketPath = path.join(os.tmpdir(), `shadowarp-cli-test-${process.pid}.sock`);
+
+    afterEach(() => {
+        server?.close();
+        server = null;
+        try { fs.unlinkSync(socketPath); } catch (e) { /* not there */ }
+    });
+
+    const listening = (s: Server) => new Promise(resolve => s.listening ? resolve(null) : s.once('listening', resolve));
+
+    it('returns the instance\'s response', async () => {
+        server = serveCli(socketPath, async (command) => ({ code: EXIT_OK, message: JSON.stringify(command) }));
+        await listening(server);
+        expect(await sendCliCommand(socketPath, { name: 'status' })).toEqual({ code: EXIT_OK, message: '{"name":"status"}' });
+    });
+
+    it('waits past the timeout once the command is accepted', async () => {
+        server = serveCli(socketPath, () => new Promise(resolve => setTimeout(() => resolve({ code: EXIT_OK, message: 'Saved' }), 200)));
+        await listening(server);
+        expect(await sendCliCommand(socketPath, { name: 'save-replay', seconds: 0 }, 50)).toEqual({ code: EXIT_OK, message: 'Saved' });
+    });
+
+    it('reports a failed command', async () => {
+        server = serveCli(socketPath, async () => { throw new Error('Nothing buffered'); });
+        await listening(server);
+        expect(await sendCliCommand(socketPath, { name: 'start' })).toEqual({ code: EXIT_FAILED, message: 'Nothing buffered' });
+    });
+
+    it('reports when nothing is listening', async () => {
+        expect((await sendCliCommand(socketPath, { name: 'status' })).code).toBe(EXIT_NOT_RUNNING);
+    });
+});
@@ -0,0 +1,143 @@
+// Command-line control of the running instance. A second launch with a command connects to
+// the first instance over a local socket, prints the reply and exits with its code, so
+// scripts and game launch wrappers can drive ShadowWarp.
+
+import * as net from 'net';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+export type CliCommand =
+    | { name: 'save-replay', seconds: number }
+    | { name: 'start' }
+    | { name: 'stop' }
+    | { name: 'status' }
+    | { name: 'preset', preset: string };
+
+export interface CliResponse {
+    code: number;
+    message: string;
+}
+
+export const EXIT_OK = 0;
+// The instance ran the command but it didn't succeed (nothing buffered, unknown preset...)
+export const EXIT_FAILED = 1;
+export const EXIT_USAGE = 2;
+export const EXIT_NOT_RUNNING = 3;
+
+export const CLI_USAGE = `Usage: shadowarp [command]
+
+  --save-replay [--duration <seconds>]  Save the last <seconds> (default: whole buffer)
+  --start                               Start buffering
+  --stop                                Stop buffering
+  --status                              Print the recorder status as JSON
+  --preset <name>                       Switch to a capture preset
+
+Exit codes: 0 ok, 1 command failed, 2 usage error, 3 ShadowWarp is not running`;
+
+// Value of `--flag value` or `--flag=value`; undefined when the flag is absent, null when it has no value
+function flagValue(args: string[], flag: string): string | null | undefined {
+    for (let i = 0; i < args.length; i++) {
+        if (args[i] === flag) return i + 1 < args.length && !args[i + 1].startsWith('--') ? args[i + 1] : null;
+        if (args[i].startsWith(`${flag}=`)) return args[i].slice(flag.length + 1);
+    }
+    return undefined;
+}
+
+// Finds a command anywhere in argv (Electron adds its own arguments in dev).
+// Returns null when there is none, so the launch is a normal app start.
+export function parseCliArgs(argv: string[]): CliCommand | { error: string } | null {
+    const names = ['--save-replay', '--start', '--stop', '--status', '--preset'];
+    const given = names.filter(n => argv.some(a => a === n || a.startsWith(`${n}=`)));
+    if (given.length === 0) return null;
+    if (given.length > 1) return { error: `Only one command at a time, got ${given.join(' ')}` };
+
+    switch (given[0]) {
+        case '--save-replay': {
+            const duration = flagValue(argv, '--duration');
+            if (duration === undefined) return { name: 'save-replay', seconds: 0 };
+            const seconds = Number(duration);
+            if (!Number.isInteger(seconds) || seconds <= 0) return { error: '--duration must be a positive whole number of seconds' };
+            return { name: 'save-replay', seconds };
+        }
+        case '--preset': {
+            const preset = flagValue(argv, '--preset');
+            if (!preset) return { error: '--preset needs a preset name' };
+            return { name: 'preset', preset };
+        }
+        case '--start':
+            return { name: 'start' };
+        case '--stop':
+            return { name: 'stop' };
+        default:
+            return { name: 'status' };
+    }
+}
+
+export function cliSocketPath(userDataDir: string) {
+    return process.platform === 'win32'
+        ? `\\\\.\\pipe\\shadowarp-cli-${os.userInfo().username}`
+        : path.join(userDataDir, 'cli.sock');
+}
+
+// Sent as soon as a request has been read; the response may take much longer (a save waits for
+// the clip to be written)
+const ACCEPTED = 'accepted';
+
+// One newline-terminated JSON request per connection, acknowledged with an ACCEPTED line and
+// answered with one JSON response line
+export function serveCli(socketPath: string, handle: (command: CliCommand) => Promise<CliResponse>) {
+    const server = net.createServer((socket) => {
+        let input = '';
+        socket.on('data', async (d: Buffer) => {
+            input += d.toString();
+            if (!input.includes('\n')) return;
+            socket.write(ACCEPTED + '\n');
+            let response: CliResponse;
+            try {
+                response = await handle(JSON.parse(input));
+            } catch (e) {
+                response = { code: EXIT_FAILED, message: (e as Error).message };
+            }
+            socket.end(JSON.stringify(response) + '\n');
+        });
+        socket.on('error', () => { /* client went away */ });
+    });
+    // We hold the single-instance lock, so a leftover Unix socket is from a crashed session
+    if (process.platform !== 'win32') {
+        try { fs.unlinkSync(socketPath); } catch (e) { /* not there */ }
+    }
+    server.on('error', (err) => console.error('CLI socket error:', err));
+    server.listen(socketPath);
+    return server;
+}
+
+// `timeout` only covers reaching the instance and it taking the command. After that the reply is
+// waited for however long the command runs.
+export function sendCliCommand(socketPath: string, command: CliCommand, timeout = 10000) {
+    return new Promise<CliResponse>((resolve) => {
+        const socket = net.connect(socketPath);
+        let output = '';
+        const timer = setTimeout(() => {
+            socket.destroy();
+            resolve({ code: EXIT_FAILED, message: 'Timed out waiting for ShadowWarp to respond' });
+        }, timeout);
+        socket.on('connect', () => socket.write(JSON.stringify(command) + '\n'));
+        socket.on('data', (d: Buffer) => {
+            output += d.toString();
+            if (output.startsWith(ACCEPTED + '\n')) clearTimeout(timer);
+        });
+        socket.on('end', () => {
+            clearTimeout(timer);
+            try {
+                resolve(JSON.parse(output.trim().split('\n').pop() || ''));
+            } catch (e) {
+                resolve({ code: EXIT_FAILED, message: 'Invalid response from ShadowWarp' });
+            }
+        });
+        socket.on('error', () => {
+            clearTimeout(timer);
+            resolve({ code: EXIT_NOT_RUNNING, message: 'ShadowWarp is not running' });
+        });
+    });
+}
@@ -0,0 +1,257 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { Readable } from 'stream';
+import { spawn } from 'child_process';
+import { ffmpeg, probeFfmpeg } from './ffmpeg';
+import { bookmarkSidecarPath, readBookmarks } from './bookmarks';
+import { ClipInfo, ClipProbe } from '../shared/clips';
+import { isRecord } from '../shared/config';
+
+// The default name template gives ShadowWarp_<Kind>_<title>.mp4 (Replay, Recovered, ...); that's
+// also all older versions wrote, straight into the output folder
+const CLIP_PATTERN = /^(ShadowWarp_[A-Za-z]+_)(.+)\.mp4$/i;
+
+// Folder-wide library state kept next to the clips, so it follows the folder rather than the install
+const LIBRARY_FILE = '.shadowarp-library.json';
+
+interface Library {
+    // Clips written by templates, as paths relative to the folder with forward slashes. Only
+    // these (and CLIP_PATTERN files at the top level) are listed, pruned or served, so other
+    // videos sharing the folder are never touched.
+    clips: string[];
+    starred: string[];
+}
+
+// A JSON object from `file`; anything missing, unreadable or of another shape reads as empty
+function readJsonObject(file: string): Record<string, unknown> {
+    try {
+        const raw: unknown = JSON.parse(fs.readFileSync(file, 'utf-8'));
+        return isRecord(raw) ? raw : {};
+    } catch (e) {
+        return {};
+    }
+}
+
+function storedCounter(v: unknown) {
+    return typeof v === 'number' && Number.isInteger(v) && v >= 0 ? v : null;
+}
+
+function readLibrary(folder: string): Library {
+    const raw = readJsonObject(path.join(folder, LIBRARY_FILE));
+    const names = (v: unknown) => Array.isArray(v) ? v.filter((n): n is string => typeof n === 'string') : [];
+    return { clips: names(raw.clips), starred: names(raw.starred) };
+}
+
+function writeLibrary(folder: string, library: Library) {
+    fs.writeFileSync(path.join(folder, LIBRARY_FILE), JSON.stringify({ ...library, clips: [...library.clips].sort(), starred: [...library.starred].sort() }, null, 2));
+}
+
+// Clips are addressed by their path relative to the output folder, and only clips in the
+// library resolve, so the renderer can never reach anything else
+export function resolveClip(folder: string, name: string) {
+    const parts = typeof name === 'string' ? name.split('/') : [];
+    const valid = parts.length > 0 && /\.mp4$/i.test(name)
+        && parts.every(p => p && p !== '.' && p !== '..' && path.basename(p) === p)
+        && (parts.length === 1 && CLIP_PATTERN.test(name) || readLibrary(folder).clips.includes(name));
+    if (!valid) throw new Error(`Invalid clip name: ${name}`);
+    return path.join(folder, ...parts);
+}
+
+// Library name of a file inside `folder`
+export function clipName(folder: string, file: string) {
+    return path.relative(folder, file).split(path.sep).join('/');
+}
+
+// Adds a newly written clip to the library; entries whose files are gone are dropped on the way
+export function registerClip(folder: string, file: string) {
+    const name = clipName(folder, file);
+    const library = readLibrary(folder);
+    library.clips = library.clips.filter(n => n !== name && fs.existsSync(path.join(folder, ...n.split('/'))));
+    library.clips.push(name);
+    writeLibrary(folder, library);
+}
+
+// After a clip is deleted: drops it from the library and removes folders it leaves empty
+export function forgetClip(folder: string, name: string) {
+    const library = readLibrary(folder);
+    library.clips = library.clips.filter(n => n !== name);
+    library.starred = library.starred.filter(n => n !== name);
+    writeLibrary(folder, library);
+    let dir = path.dirname(path.join(folder, ...name.split('/')));
+    while (path.relative(folder, dir) && !path.relative(folder, dir).startsWith('..')) {
+        try { fs.rmdirSync(dir); } catch (e) { break; }
+        dir = path.dirname(dir);
+    }
+}
+
+// Next value for the {counter} token; `take` also records it as used. The last value handed out
+// lives in `counterFile` with the app's state, so it runs on when the output folder changes.
+export function clipCounter(counterFile: string, folder: string, take: boolean) {
+    // Older versions kept it in the output folder's library file; carry that on
+    const last = storedCounter(readJsonObject(counterFile).counter)
+        ?? storedCounter(readJsonObject(path.join(folder, LIBRARY_FILE)).counter)
+        ?? 0;
+    if (take) fs.writeFileSync(counterFile, JSON.stringify({ counter: last + 1 }, null, 2));
+    return last + 1;
+}
+
+// Full path for `relative` (from renderClipPath, no extension), numbered if the clip or a
+// session part with that name already exists, or is in `reserved` (saves that haven't written it yet)
+export function uniqueClipPath(folder: string, relative: string, reserved: Set<string> = new Set()) {
+    const base = path.join(folder, ...relative.split('/'));
+    const taken = (b: string) => reserved.has(`${b}.mp4`) || fs.existsSync(`${b}.mp4`) || fs.existsSync(`${b}.ts`);
+    let candidate = base;
+    for (let n = 2; taken(candidate); n++) candidate = `${base}_${n}`;
+    return `${candidate}.mp4`;
+}
+
+// What the library shows and rename edits: the file name without the ShadowWarp_<Kind>_ prefix
+// (when it has one) and extension
+function clipTitle(name: string) {
+    const base = path.posix.basename(name);
+    const match = base.match(CLIP_PATTERN);
+    return match ? match[2] : base.replace(/\.mp4$/i, '');
+}
+
+export function listClips(folder: string): ClipInfo[] {
+    if (!fs.existsSync(folder)) return [];
+    const library = readLibrary(folder);
+    const starred = new Set(library.starred);
+    const names = new Set([...fs.readdirSync(folder).filter(name => CLIP_PATTERN.test(name)), ...library.clips]);
+    return [...names]
+        .map(name => ({ name, file: path.join(folder, ...name.split('/')) }))
+        .filter(({ file }) => fs.existsSync(file))
+        .map(({ name, file }) => {
+            const stat = fs.statSync(file);
+            return {
+                name,
+                title: clipTitle(name),
+                size: stat.size,
+                modified: stat.mtimeMs,
+                bookmarks: readBookmarks(file),
+                starred: starred.has(name)
+            };
+        })
+        .sort((a, b) => b.modified - a.modified);
+}
+
+// ffprobe isn't bundled, so read the stream summary `ffmpeg -i` prints to stderr
+export async function probeClip(file: string): Promise<ClipProbe> {
+    const output = await probeFfmpeg(['-hide_banner', '-i', file]);
+    const duration = output.match(/Duration: (\d+):(\d+):(\d+(?:\.\d+)?)/);
+    const video = output.match(/Stream #.*?Video: (\w+).*?, (\d{2,5})x(\d{2,5})/);
+    const audio = output.match(/Stream #.*?Audio: (\w+)/);
+    if (!duration || !video) throw new Error(`Could not probe ${path.basename(file)}`);
+    return {
+        duration: parseInt(duration[1]) * 3600 + parseInt(duration[2]) * 60 + parseFloat(duration[3]),
+        width: parseInt(video[2]),
+        height: parseInt(video[3]),
+        videoCodec: video[1],
+        audioCodec: audio ? audio[1] : null
+    };
+}
+
+// Serves clips to the renderer's <video> over the clip:// protocol. Range requests are
+// answered explicitly so the trimmer's scrubber can seek without loading the whole file.
+export function serveClip(folder: string, request: Request) {
+    let file: string;
+    try {
+        file = resolveClip(folder, decodeURIComponent(new URL(request.url).pathname.slice(1)));
+    } catch (e) {
+        return new Response(null, { status: 400 });
+    }
+    if (!fs.existsSync(file)) return new Response(null, { status: 404 });
+
+    const size = fs.statSync(file).size;
+    const headers: Record<string, string> = { 'Content-Type': 'video/mp4', 'Accept-Ranges': 'bytes' };
+    const range = /bytes=(\d*)-(\d*)/.exec(request.headers.get('range') || '');
+    if (!range || (!range[1] && !range[2])) {
+        headers['Content-Length'] = String(size);
+        return new Response(Readable.toWeb(fs.createReadStream(file)), { headers });
+    }
+
+    // "bytes=-N" asks for the last N bytes
+    const start = range[1] ? parseInt(range[1]) : Math.max(0, size - parseInt(range[2]));
+    const end = range[1] && range[2] ? Math.min(parseInt(range[2]), size - 1) : size - 1;
+    if (start >= size || start > end) {
+        return new Response(null, { status: 416, headers: { 'Content-Range': `bytes */${size}` } });
+    }
+    headers['Content-Length'] = String(end - start + 1);
+    headers['Content-Range'] = `bytes ${start}-${end}/${size}`;
+    return new Response(Readable.toWeb(fs.createReadStream(file, { start, end })), { status: 206, headers });
+}
+
+// Returns a JPEG data URL. Thumbnails are cached per file name, size and mtime,
+// so a rename or re-save produces a fresh one.
+export function getThumbnail(file: string, cacheDir: string) {
+    const stat = fs.statSync(file);
+    const key = `${path.basename(file, '.mp4')}_${stat.size}_${Math.round(stat.mtimeMs)}.jpg`;
+    const thumbPath = path.join(cacheDir, key);
+
+    const toDataUrl = () => `data:image/jpeg;base64,${fs.readFileSync(thumbPath).toString('base64')}`;
+    if (fs.existsSync(thumbPath)) return Promise.resolve(toDataUrl());
+
+    if (!fs.existsSync(cacheDir)) fs.mkdirSync(cacheDir, { recursive: true });
+    return new Promise<string>((resolve, reject) => {
+        const proc = spawn(ffmpeg, [
+            '-y',
+            // Skip the first second, which is often a transition or black frame
+            '-ss', '1',
+            '-i', file,
+            '-frames:v', '1',
+            '-vf', 'scale=320:-2',
+            '-q:v', '4',
+            thumbPath
+        ], { windowsHide: true });
+        proc.on('error', reject);
+        proc.on('exit', (code) => {
+            if (code === 0 && fs.existsSync(thumbPath)) resolve(toDataUrl());
+            else reject(new Error(`Thumbnail generation failed with code ${code}`));
+        });
+    });
+}
+
+// "<title><suffix>.mp4" next to `name`, numbered if that name is already taken
+export function uniqueClipName(folder: string, name: string, suffix: string) {
+    const base = name.replace(/\.mp4$/i, '');
+    let candidate = `${base}${suffix}.mp4`;
+    for (let n = 2; fs.existsSync(path.join(folder, ...candidate.split('/'))); n++) {
+        candidate = `${base}${suffix}_${n}.mp4`;
+    }
+    return candidate;
+}
+
+// Renames within the clip's folder, keeping a ShadowWarp_<Kind>_ prefix if it has one
+export function renameClip(folder: string, name: string, title: string) {
+    const from = resolveClip(folder, name);
+    const prefix = path.posix.basename(name).match(CLIP_PATTERN)?.[1] || '';
+    const safeTitle = title.trim().replace(/[<>:"/\\|?*\x00-\x1f]/g, '_');
+    if (!safeTitle) throw new Error('Clip name cannot be empty');
+
+    const dir = path.posix.dirname(name);
+    const newName = `${dir === '.' ? '' : dir + '/'}${prefix}${safeTitle}.mp4`;
+    const to = path.join(folder, ...newName.split('/'));
+    if (newName !== name && fs.existsSync(to)) throw new Error(`A clip named "${path.basename(to)}" already exists`);
+    fs.renameSync(from, to);
+    if (newName === name) return newName;
+
+    // Bookmarks, the star and the library entry follow their clip
+    if (fs.existsSync(bookmarkSidecarPath(from))) fs.renameSync(bookmarkSidecarPath(from), bookmarkSidecarPath(to));
+    const library = readLibrary(folder);
+    const renamed = (names: string[]) => names.map(n => n === name ? newName : n);
+    const registered = library.clips.includes(name);
+    library.clips = renamed(library.clips);
+    library.starred = renamed(library.starred);
+    // A prefix-less name only resolves through the library
+    if (!registered && !CLIP_PATTERN.test(newName)) library.clips.push(newName);
+    writeLibrary(folder, library);
+    return newName;
+}
+
+export function starClip(folder: string, name: string, starred: boolean) {
+    resolveClip(folder, name);
+    const library = readLibrary(folder);
+    if (starred === library.starred.includes(name)) return;
+    library.starred = starred ? [...library.starred, name] : library.starred.filter(n => n !== name);
+    writeLibrary(folder, library);
+}
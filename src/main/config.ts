@@ -0,0 +1,47 @@
+import * as fs from 'fs';
+import { Config, DEFAULT_CONFIG, migrateConfig, validateConfig } from '../shared/config';
+
+// Loads config.json, upgrading older versions. Invalid fields are reset to their defaults
+// rather than refusing to start; the file is rewritten whenever anything changed. Upgrade
+// messages meant for the user are added to `notices`.
+export function loadConfig(file: string, notices: string[] = []): Config {
+    if (!fs.existsSync(file)) return { ...DEFAULT_CONFIG };
+
+    let raw: any;
+    try {
+        raw = JSON.parse(fs.readFileSync(file, 'utf8'));
+    } catch (e) {
+        console.error("Failed to load config, using defaults:", e);
+        // Moved aside so the defaults saved next don't destroy what could still be fixed by hand
+        const kept = `${file}.bad-${Date.now()}`;
+        try {
+            fs.renameSync(file, kept);
+            notices.push(`Your settings file couldn't be read, so ShadowWarp started with the defaults. The old file was kept as ${kept}.`);
+        } catch (err) {
+            console.error("Failed to move the unreadable config aside:", err);
+            notices.push("Your settings file couldn't be read, so ShadowWarp started with the defaults.");
+        }
+        return { ...DEFAULT_CONFIG };
+    }
+
+    const { config, errors } = validateConfig(migrateConfig(raw, notices));
+    for (const [key, error] of Object.entries(errors)) {
+        console.warn(`Config field "${key}" ${error}; using default.`);
+    }
+    if (raw.version !== config.version || Object.keys(errors).length > 0) {
+        saveConfig(file, config);
+    }
+    return config;
+}
+
+// Written to a temp file and renamed over the original, so a crash mid-write
+// leaves either the old or the new config, never a truncated one
+export function saveConfig(file: string, config: Config) {
+    const tmp = `${file}.tmp`;
+    try {
+        fs.writeFileSync(tmp, JSON.stringify(config, null, 2));
+        fs.renameSync(tmp, file);
+    } catch (e) {
+        console.error("Failed to save config:", e);
+    }
+}
@@ -0,0 +1,164 @@
+// Opt-in localhost control API for Stream Deck plugins, scripts and bots. Plain HTTP for
+// commands and queries, plus a WebSocket at /events that pushes what happens in the app.
+// Every request must carry the token from config, as `Authorization: Bearer <token>` or `?token=`.
+
+import * as http from 'http';
+import { timingSafeEqual } from 'crypto';
+import { WebSocketServer, WebSocket } from 'ws';
+import { isRecord } from '../shared/config';
+
+export interface ControlHandlers {
+    // Each returns a JSON-serializable result; errors from controlError() keep their status code
+    status(): unknown;
+    saveReplay(seconds: number): unknown;
+    startRecording(): unknown;
+    stopRecording(): unknown;
+    recentClips(limit: number): unknown;
+}
+
+export function controlError(status: number, message: string) {
+    return Object.assign(new Error(message), { status });
+}
+
+const MAX_BODY = 64 * 1024;
+
+function tokenMatches(given: string | null, expected: string) {
+    if (!given || !expected) return false;
+    const a = Buffer.from(given);
+    const b = Buffer.from(expected);
+    return a.length === b.length && timingSafeEqual(a, b);
+}
+
+function requestToken(req: http.IncomingMessage, url: URL) {
+    const auth = req.headers.authorization;
+    if (auth && auth.startsWith('Bearer ')) return auth.slice(7).trim();
+    return url.searchParams.get('token');
+}
+
+function sendJson(res: http.ServerResponse, status: number, body: unknown) {
+    res.writeHead(status, { 'Content-Type': 'application/json', 'Cache-Control': 'no-store' });
+    res.end(JSON.stringify(body));
+}
+
+// A JSON object; an empty body reads as {}
+function readBody(req: http.IncomingMessage) {
+    return new Promise<Record<string, unknown>>((resolve, reject) => {
+        let body = '';
+        req.on('data', (d: Buffer) => {
+            // Keep draining so the response can still be sent, just stop collecting
+            if (body.length <= MAX_BODY) body += d.toString();
+        });
+        req.on('end', () => {
+            if (body.length > MAX_BODY) return reject(controlError(413, 'Request body too large'));
+            if (!body.trim()) return resolve({});
+            let parsed: unknown;
+            try {
+                parsed = JSON.parse(body);
+            } catch (e) {
+                return reject(controlError(400, 'Body must be JSON'));
+            }
+            if (isRecord(parsed)) resolve(parsed);
+            else reject(controlError(400, 'Body must be a JSON object'));
+        });
+        req.on('error', reject);
+    });
+}
+
+// Duration from `?duration=` or a JSON body's `duration`, in seconds; 0 (the default) saves the whole buffer
+function parseDuration(url: URL, body: Record<string, unknown>) {
+    const raw = url.searchParams.get('duration') ?? body.duration ?? 0;
+    const seconds = Number(raw);
+    if (!Number.isInteger(seconds) || seconds < 0) throw controlError(400, 'duration must be a whole number of seconds');
+    return seconds;
+}
+
+export function createControlServer(handlers: ControlHandlers) {
+    let server: http.Server | null = null;
+    let sockets: WebSocketServer | null = null;
+    let token = '';
+
+    const route = async (req: http.IncomingMessage, url: URL) => {
+        const key = `${req.method} ${url.pathname.replace(/\/+$/, '') || '/'}`;
+        switch (key) {
+            case 'GET /status':
+                return handlers.status();
+            case 'POST /save-replay':
+                return handlers.saveReplay(parseDuration(url, await readBody(req)));
+            case 'POST /start':
+                return handlers.startRecording();
+            case 'POST /stop':
+                return handlers.stopRecording();
+            case 'GET /clips': {
+                const limit = Number(url.searchParams.get('limit') ?? 20);
+                return handlers.recentClips(Number.isInteger(limit) && limit > 0 ? limit : 20);
+            }
+        }
+        throw controlError(404, `No endpoint ${req.method} ${url.pathname}`);
+    };
+
+    const handleRequest = async (req: http.IncomingMessage, res: http.ServerResponse) => {
+        const url = new URL(req.url || '/', 'http://localhost');
+        if (!tokenMatches(requestToken(req, url), token)) return sendJson(res, 401, { error: 'Missing or invalid token' });
+        try {
+            sendJson(res, 200, await route(req, url));
+        } catch (e) {
+            const status = (e as { status?: number }).status || 500;
+            sendJson(res, status, { error: (e as Error).message });
+        }
+    };
+
+    const stop = () => {
+        if (sockets) {
+            for (const client of sockets.clients) client.terminate();
+            sockets.close();
+            sockets = null;
+        }
+        if (server) {
+            server.close();
+            server = null;
+        }
+    };
+
+    return {
+        get running() { return server !== null; },
+
+        // Resolves once listening; rejects with the listen error (e.g. port already in use)
+        start(port: number, newToken: string) {
+            stop();
+            token = newToken;
+            const httpServer = http.createServer((req, res) => { handleRequest(req, res); });
+            const wss = new WebSocketServer({ noServer: true });
+            httpServer.on('upgrade', (req, socket, head) => {
+                const url = new URL(req.url || '/', 'http://localhost');
+                if (url.pathname !== '/events' || !tokenMatches(requestToken(req, url), token)) {
+                    socket.end('HTTP/1.1 401 Unauthorized\r\n\r\n');
+                    return;
+                }
+                wss.handleUpgrade(req, socket, head, (ws) => {
+                    ws.send(JSON.stringify({ event: 'hello', data: handlers.status(), time: Date.now() }));
+                });
+            });
+            server = httpServer;
+            sockets = wss;
+            return new Promise<void>((resolve, reject) => {
+                httpServer.once('error', (err) => {
+                    if (server === httpServer) stop();
+                    reject(err);
+                });
+                // Loopback only: the API is for tools on this machine
+                httpServer.listen(port, '127.0.0.1', () => resolve());
+            });
+        },
+
+        stop,
+
+        // Pushes an event to every connected /events client
+        broadcast(event: string, data: unknown = null) {
+            if (!sockets) return;
+            const message = JSON.stringify({ event, data, time: Date.now() });
+            for (const client of sockets.clients) {
+                if (client.readyState === WebSocket.OPEN) client.send(message);
+            }
+        }
+    };
+}
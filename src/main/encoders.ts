@@ -0,0 +1,128 @@
+import { spawn } from 'child_process';
+import { ffmpeg, probeFfmpeg, lastErrorLine } from './ffmpeg';
+import { EncoderStatus } from '../shared/encoders';
+
+type EncoderFamily = 'nvenc' | 'qsv' | 'amf' | 'vaapi' | 'software';
+
+interface EncoderSpec {
+    id: string;
+    label: string;
+    family: EncoderFamily;
+}
+
+// Every encoder ShadowWarp knows how to drive, in the order the settings list shows them
+export const ENCODERS: EncoderSpec[] = [
+    { id: 'h264_nvenc', label: 'NVIDIA NVENC (H.264)', family: 'nvenc' },
+    { id: 'hevc_nvenc', label: 'NVIDIA NVENC (HEVC)', family: 'nvenc' },
+    { id: 'h264_qsv', label: 'Intel Quick Sync (H.264)', family: 'qsv' },
+    { id: 'hevc_qsv', label: 'Intel Quick Sync (HEVC)', family: 'qsv' },
+    { id: 'h264_amf', label: 'AMD AMF (H.264)', family: 'amf' },
+    { id: 'hevc_amf', label: 'AMD AMF (HEVC)', family: 'amf' },
+    { id: 'h264_vaapi', label: 'VA-API (H.264)', family: 'vaapi' },
+    { id: 'hevc_vaapi', label: 'VA-API (HEVC)', family: 'vaapi' },
+    { id: 'libx264', label: 'Software CPU (x264)', family: 'software' },
+    { id: 'libx265', label: 'Software CPU (x265)', family: 'software' }
+];
+
+const VAAPI_DEVICE = '/dev/dri/renderD128';
+const PROBE_TIMEOUT = 10000;
+
+export interface EncoderArgs {
+    // Global options that must come before the inputs (hardware device setup)
+    global: string[];
+    // Appended to the video filter chain, e.g. uploading frames to the GPU
+    filter: string | null;
+    // Output options following -c:v
+    output: string[];
+}
+
+export function encoderArgs(id: string): EncoderArgs {
+    const family = ENCODERS.find(e => e.id === id)?.family || 'software';
+    switch (family) {
+        case 'nvenc':
+            return { global: [], filter: null, output: ['-preset', 'p5'] };
+        case 'qsv':
+            return { global: [], filter: null, output: ['-preset', 'veryfast'] };
+        case 'amf':
+            return { global: [], filter: null, output: ['-quality', 'speed'] };
+        case 'vaapi':
+            return { global: ['-vaapi_device', VAAPI_DEVICE], filter: 'format=nv12,hwupload', output: [] };
+        default:
+            return { global: [], filter: null, output: ['-preset', 'ultrafast'] };
+    }
+}
+
+// Encodes a few frames of a generated source and discards them. Hardware encoders are
+// compiled into the bundled FFmpeg whether or not the machine has the hardware,
+// so being listed by -encoders proves nothing on its own.
+function testEncode(id: string) {
+    const { global, filter, output } = encoderArgs(id);
+    return new Promise<string | null>((resolve) => {
+        const proc = spawn(ffmpeg, [
+            '-hide_banner',
+            ...global,
+            '-f', 'lavfi', '-i', 'color=black:s=256x256:r=30',
+            ...(filter ? ['-vf', filter] : []),
+            '-frames:v', '3',
+            '-c:v', id,
+            ...output,
+            '-f', 'null', '-'
+        ], { windowsHide: true });
+        let stderrOutput = '';
+        const timer = setTimeout(() => proc.kill('SIGKILL'), PROBE_TIMEOUT);
+        proc.stderr.on('data', (d: Buffer) => {
+            stderrOutput = (stderrOutput + d.toString()).slice(-2000);
+        });
+        proc.on('error', (err) => { clearTimeout(timer); resolve(err.message); });
+        proc.on('exit', (code) => {
+            clearTimeout(timer);
+            resolve(code === 0 ? null : lastErrorLine(stderrOutput) || `Test encode failed with code ${code}`);
+        });
+    });
+}
+
+const ENCODER_INIT_ERROR = /Error (while )?opening (output stream|encoder)|Error initializing (output stream|an internal MFX session)|No capable devices found|OpenEncodeSessionEx|Cannot load .*\.(dll|so)/i;
+// Logged by the -vaapi_device setup rather than the encoder, so without its name
+const VAAPI_DEVICE_ERROR = /Failed to (initialise|create) VAAPI|Device creation failed/i;
+
+// Distinguishes an encoder that refused to start from a capture input that failed,
+// so a broken screen grab doesn't get blamed on (and walk through) every encoder.
+// The error has to name the encoder on the same line ("[h264_nvenc @ ...]",
+// "[vost#0:0/h264_nvenc @ ...]"); the stream mapping lines name it on every run.
+export function isEncoderError(stderrOutput: string, id: string) {
+    return stderrOutput.split('\n').some(line =>
+        (line.includes(id) && ENCODER_INIT_ERROR.test(line))
+        || (id.endsWith('_vaapi') && VAAPI_DEVICE_ERROR.test(line)));
+}
+
+let probePromise: Promise<EncoderStatus[]> | null = null;
+
+// Runs once per launch; later callers get the same result. Test encodes run one at a time
+// so hardware encoders don't compete for the same GPU session.
+export function probeEncoders() {
+    if (!probePromise) {
+        probePromise = (async () => {
+            const listing = await probeFfmpeg(['-hide_banner', '-encoders']);
+            const statuses: EncoderStatus[] = [];
+            for (const encoder of ENCODERS) {
+                if (!new RegExp(`^\\s*V\\S*\\s+${encoder.id}\\s`, 'm').test(listing)) {
+                    statuses.push({ id: encoder.id, label: encoder.label, available: false, error: 'Not included in the bundled FFmpeg' });
+                    continue;
+                }
+                const error = await testEncode(encoder.id);
+                statuses.push({ id: encoder.id, label: encoder.label, available: error === null, error });
+            }
+            console.log('Encoder probe:', statuses.map(s => `${s.id}=${s.available ? 'ok' : 'unavailable'}`).join(' '));
+            return statuses;
+        })();
+    }
+    return probePromise;
+}
+
+// The preferred encoder if it works, otherwise the first working one along the fallback chain.
+// Software x264 is the last resort even when the chain doesn't list it.
+export function pickEncoder(preferred: string, chain: string[], statuses: EncoderStatus[], exclude: Set<string>) {
+    const works = (id: string) => !exclude.has(id) && statuses.some(s => s.id === id && s.available);
+    if (works(preferred)) return preferred;
+    return chain.find(works) || (exclude.has('libx264') ? null : 'libx264');
+}
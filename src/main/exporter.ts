@@ -0,0 +1,242 @@
+// Export presets: re-encodes of a saved clip for sharing (size-capped MP4, WebM, GIF, audio).
+// Jobs run one at a time in the background, so exports never fight each other for the CPU
+// the recorder also needs.
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { spawn, ChildProcess } from 'child_process';
+import { ffmpeg, lastErrorLine } from './ffmpeg';
+import { probeClip } from './clips';
+import { createProgressParser } from './progress';
+import { ExportPreset, EXPORT_EXTENSIONS } from '../shared/config';
+import { ExportJob } from '../shared/exports';
+import { ClipProbe } from '../shared/clips';
+
+// Audio bitrates (kbit/s); size-capped exports reserve these out of the budget
+const AAC_KBPS = 128;
+const OPUS_KBPS = 96;
+// Share of the size budget the streams may use; the rest covers container overhead and
+// rate control overshooting
+const SIZE_MARGIN = 0.95;
+// Below this a size-capped export isn't worth watching
+const MIN_VIDEO_KBPS = 100;
+
+// Video kbit/s that keeps a `duration` second export under `maxSizeMB`
+export function videoBitrateFor(maxSizeMB: number, duration: number, audioKbps: number) {
+    // Without a length there's no budget to split; the probe leaves 0 when it can't read one
+    if (!(duration > 0)) throw new Error(`Couldn't read the clip's length to fit it in ${maxSizeMB} MB`);
+    const totalKbps = maxSizeMB * 1024 * 1024 * 8 / 1000 / duration * SIZE_MARGIN;
+    const videoKbps = Math.floor(totalKbps - audioKbps);
+    if (!(videoKbps >= MIN_VIDEO_KBPS)) {
+        throw new Error(`A ${Math.round(duration)}s clip can't fit in ${maxSizeMB} MB; trim it or raise the limit`);
+    }
+    return videoKbps;
+}
+
+function videoFilters(preset: ExportPreset) {
+    const filters: string[] = [];
+    if (preset.fps > 0) filters.push(`fps=${preset.fps}`);
+    if (preset.maxHeight > 0) filters.push(`scale=-2:'min(ih,${preset.maxHeight})':flags=lanczos`);
+    return filters;
+}
+
+// The FFmpeg runs an export takes, in order: two for size-capped (two-pass) encodes, else one.
+// Only the first audio track is kept; it's the mix whenever the clip has one.
+export function exportPasses(input: string, output: string, preset: ExportPreset, probe: ClipProbe, passLog: string): string[][] {
+    const hasAudio = probe.audioCodec !== null;
+    const filters = videoFilters(preset);
+
+    switch (preset.format) {
+        case 'audio':
+            if (!hasAudio) throw new Error('This clip has no audio');
+            return [['-y', '-i', input, '-map', '0:a:0', '-c:a', 'aac', '-b:a', '192k', '-f', 'ipod', '-movflags', '+faststart', output]];
+
+        case 'gif': {
+            // A palette built from the clip itself rather than GIF's generic 256 colours
+            const graph = `${[...filters, 'split[a][b]'].join(',')};[a]palettegen=stats_mode=diff[p];[b][p]paletteuse=dither=bayer:bayer_scale=5`;
+            return [['-y', '-i', input, '-map', '0:v:0', '-vf', graph, '-f', 'gif', output]];
+        }
+
+        case 'mp4':
+        case 'webm': {
+            const webm = preset.format === 'webm';
+            const filterArgs = filters.length ? ['-vf', filters.join(',')] : [];
+            const video = webm
+                ? ['-c:v', 'libvpx-vp9', '-row-mt', '1', '-deadline', 'good', '-cpu-used', '2']
+                : ['-c:v', 'libx264', '-preset', 'medium', '-pix_fmt', 'yuv420p'];
+            const audio = !hasAudio ? [] : webm
+                ? ['-map', '0:a:0', '-c:a', 'libopus', '-b:a', `${OPUS_KBPS}k`]
+                : ['-map', '0:a:0', '-c:a', 'aac', '-b:a', `${AAC_KBPS}k`];
+            const container = webm ? ['-f', 'webm'] : ['-f', 'mp4', '-movflags', '+faststart'];
+
+            if (preset.maxSize === 0) {
+                const quality = webm ? ['-crf', '32', '-b:v', '0'] : ['-crf', '23'];
+                return [['-y', '-i', input, '-map', '0:v:0', ...filterArgs, ...video, ...quality, ...audio, ...container, output]];
+            }
+
+            const kbps = videoBitrateFor(preset.maxSize, probe.duration, hasAudio ? (webm ? OPUS_KBPS : AAC_KBPS) : 0);
+            const rate = ['-b:v', `${kbps}k`, '-passlogfile', passLog];
+            return [
+                // The first pass only analyses the video
+                ['-y', '-i', input, '-map', '0:v:0', ...filterArgs, ...video, ...rate, '-pass', '1', '-an', '-f', 'null', '-'],
+                ['-y', '-i', input, '-map', '0:v:0', ...filterArgs, ...video, ...rate, '-pass', '2', ...audio, ...container, output]
+            ];
+        }
+    }
+}
+
+// "<clip>_<preset-name>.<ext>" in `folder`, numbered if that name is taken
+function exportPath(folder: string, input: string, preset: ExportPreset) {
+    const slug = preset.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || preset.format;
+    const base = `${path.basename(input, path.extname(input))}_${slug}`;
+    const ext = EXPORT_EXTENSIONS[preset.format];
+    let candidate = path.join(folder, `${base}.${ext}`);
+    for (let n = 2; fs.existsSync(candidate); n++) candidate = path.join(folder, `${base}_${n}.${ext}`);
+    return candidate;
+}
+
+export interface ExportQueueOptions {
+    // Where two-pass logs go
+    workDir: string;
+    // Called with a snapshot of every job whenever one is added, progresses or ends
+    onChange(jobs: ExportJob[]): void;
+    // A job finished or failed (not called for cancelled ones)
+    onFinished(job: ExportJob): void;
+}
+
+interface QueuedExport {
+    job: ExportJob;
+    input: string;
+    preset: ExportPreset;
+    outputDir: string;
+    proc: ChildProcess | null;
+}
+
+export function createExportQueue(options: ExportQueueOptions) {
+    let entries: QueuedExport[] = [];
+    let running = false;
+    let nextId = 1;
+
+    const snapshot = () => entries.map(e => ({ ...e.job }));
+    const changed = () => options.onChange(snapshot());
+
+    // One FFmpeg run; progress is reported as seconds of output written
+    const runPass = (entry: QueuedExport, args: string[], onProgress: (seconds: number) => void) => new Promise<void>((resolve, reject) => {
+        let log = '';
+        const parser = createProgressParser((p) => onProgress(p.outTime), (text) => { log = (log + text).slice(-4000); });
+        const proc = spawn(ffmpeg, ['-hide_banner', '-nostats', '-progress', 'pipe:2', ...args], { windowsHide: true });
+        entry.proc = proc;
+        proc.stderr.on('data', (d: Buffer) => parser.push(d));
+        proc.on('error', reject);
+        proc.on('exit', (code, signal) => {
+            entry.proc = null;
+            if (code === 0) resolve();
+            else reject(new Error(lastErrorLine(log) || (signal ? `FFmpeg was killed (${signal})` : `FFmpeg exited with code ${code}`)));
+        });
+    });
+
+    const run = async (entry: QueuedExport) => {
+        const { job } = entry;
+        job.state = 'running';
+        changed();
+
+        const passLog = path.join(options.workDir, `export_${job.id}_${Date.now()}`);
+        let output: string | null = null;
+        try {
+            const probe = await probeClip(entry.input);
+            fs.mkdirSync(entry.outputDir, { recursive: true });
+            fs.mkdirSync(options.workDir, { recursive: true });
+            output = exportPath(entry.outputDir, entry.input, entry.preset);
+            const passes = exportPasses(entry.input, output, entry.preset, probe, passLog);
+            for (let i = 0; i < passes.length && job.state === 'running'; i++) {
+                await runPass(entry, passes[i], (seconds) => {
+                    job.progress = Math.min(1, (i + Math.min(seconds / probe.duration, 1)) / passes.length);
+                    changed();
+                });
+            }
+            if (job.state === 'running') {
+                job.state = 'done';
+                job.progress = 1;
+                job.output = output;
+            }
+        } catch (e) {
+            if (job.state === 'running') {
+                job.state = 'failed';
+                job.error = (e as Error).message;
+            }
+        } finally {
+            // Two-pass logs are <passLog>-0.log plus encoder-specific extras (.mbtree)
+            const prefix = path.basename(passLog);
+            for (const f of fs.existsSync(options.workDir) ? fs.readdirSync(options.workDir) : []) {
+                if (f.startsWith(prefix)) try { fs.unlinkSync(path.join(options.workDir, f)); } catch (err) { /* ignore */ }
+            }
+            if (job.state !== 'done' && output) try { fs.unlinkSync(output); } catch (err) { /* ignore */ }
+        }
+
+        changed();
+        if (job.state === 'done' || job.state === 'failed') options.onFinished({ ...job });
+    };
+
+    const pump = () => {
+        if (running) return;
+        const next = entries.find(e => e.job.state === 'queued');
+        if (!next) return;
+        running = true;
+        run(next).finally(() => {
+            running = false;
+            pump();
+        });
+    };
+
+    return {
+        get jobs() {
+            return snapshot();
+        },
+
+        add(input: string, preset: ExportPreset, outputDir: string) {
+            const job: ExportJob = {
+                id: String(nextId++),
+                clip: path.basename(input),
+                presetName: preset.name,
+                state: 'queued',
+                progress: 0,
+                output: null,
+                error: null
+            };
+            entries.push({ job, input, preset: { ...preset }, outputDir, proc: null });
+            changed();
+            pump();
+            return { ...job };
+        },
+
+        cancel(id: string) {
+            const entry = entries.find(e => e.job.id === id);
+            if (!entry || (entry.job.state !== 'queued' && entry.job.state !== 'running')) return;
+            entry.job.state = 'cancelled';
+            if (entry.proc) entry.proc.kill();
+            changed();
+        },
+
+        cancelAll() {
+            for (const entry of entries) {
+                if (entry.job.state === 'queued' || entry.job.state === 'running') {
+                    entry.job.state = 'cancelled';
+                    if (entry.proc) entry.proc.kill();
+                }
+            }
+        },
+
+        // Drops finished, failed and cancelled jobs from the list
+        clearFinished() {
+            entries = entries.filter(e => e.job.state === 'queued' || e.job.state === 'running');
+            changed();
+        },
+
+        find(id: string) {
+            const entry = entries.find(e => e.job.id === id);
+            return entry ? { ...entry.job } : null;
+        }
+    };
+}
+
+export type ExportQueue = ReturnType<typeof createExportQueue>;
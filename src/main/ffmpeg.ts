@@ -0,0 +1,37 @@
+import { spawn } from 'child_process';
+import _ffmpeg from 'ffmpeg-static';
+
+export const ffmpeg = (_ffmpeg as string).replace('app.asar', 'app.asar.unpacked');
+
+// Runs a short-lived FFmpeg command and resolves with everything it printed to stderr
+export function probeFfmpeg(args: string[]) {
+    return new Promise<string>((resolve) => {
+        const proc = spawn(ffmpeg, args, { windowsHide: true });
+        let output = '';
+        proc.stderr.on('data', d => output += d.toString());
+        proc.on('error', () => resolve(output));
+        proc.on('close', () => resolve(output));
+    });
+}
+
+// Runs FFmpeg to completion, rejecting with the tail of stderr on failure
+export function runFfmpeg(args: string[]) {
+    return new Promise<void>((resolve, reject) => {
+        const proc = spawn(ffmpeg, args, { windowsHide: true });
+        let stderrOutput = '';
+        proc.stderr.on('data', (d: Buffer) => {
+            stderrOutput = (stderrOutput + d.toString()).slice(-4000);
+        });
+        proc.on('error', reject);
+        proc.on('exit', (code) => {
+            if (code === 0) resolve();
+            else reject(new Error(`FFmpeg exited with code ${code}: ${stderrOutput.trim().split('\n').pop()}`));
+        });
+    });
+}
+
+// Last meaningful error line of FFmpeg's stderr, short enough to show the user
+export function lastErrorLine(stderrOutput: string) {
+    const lines = stderrOutput.split('\n').map(l => l.trim()).filter(Boolean);
+    return lines.reverse().find(l => /error|fail|not (found|supported|available)|cannot|unable/i.test(l)) || lines[0] || '';
+}
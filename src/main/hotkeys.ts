@@ -0,0 +1,177 @@
+// Global hotkeys: stored combos compiled once into lookups on uiohook's keycodes and mouse
+// buttons, and the press / hold / double-tap gestures played out on its raw events.
+
+import { UiohookKey, UiohookKeyboardEvent, UiohookMouseEvent } from 'uiohook-napi';
+import { HotkeyBinding, HotkeyTrigger, KEY_CODES, MOUSE_BUTTONS, DEFAULT_HOLD_MS, DOUBLE_TAP_MS, parseShortcut } from '../shared/hotkeys';
+
+const uiohookKeys = UiohookKey as Record<string, number>;
+
+// uiohook names most keys like KeyboardEvent.code does, but letters and digits without their prefix
+function uiohookName(code: string) {
+    return code.replace(/^Key(.)$/, '$1').replace(/^Digit(.)$/, '$1');
+}
+
+const KEYCODES = new Map<string, number>();
+const CODES = new Map<number, string>();
+for (const code of KEY_CODES) {
+    const keycode = uiohookKeys[uiohookName(code)];
+    if (keycode === undefined) continue;
+    KEYCODES.set(code, keycode);
+    CODES.set(keycode, code);
+}
+// With Num Lock off the keypad reports its navigation keys, but the DOM code stays the same
+const NUMPAD_NAVIGATION: Record<string, string> = {
+    NumpadInsert: 'Numpad0', NumpadEnd: 'Numpad1', NumpadArrowDown: 'Numpad2', NumpadPageDown: 'Numpad3',
+    NumpadArrowLeft: 'Numpad4', NumpadArrowRight: 'Numpad6', NumpadHome: 'Numpad7', NumpadArrowUp: 'Numpad8',
+    NumpadPageUp: 'Numpad9', NumpadDelete: 'NumpadDecimal'
+};
+for (const [name, code] of Object.entries(NUMPAD_NAVIGATION)) {
+    if (uiohookKeys[name] !== undefined) CODES.set(uiohookKeys[name], code);
+}
+
+// uiohook keycode for a KeyboardEvent.code, or undefined when the hook can't see that key
+export function keycodeForCode(code: string) {
+    return KEYCODES.get(code);
+}
+
+export function codeForKeycode(keycode: number) {
+    return CODES.get(keycode);
+}
+
+// uiohook numbers mouse buttons from 1 (left); 4 and 5 are back and forward
+function mouseButtonName(button: unknown) {
+    const name = `Mouse${button}`;
+    return (MOUSE_BUTTONS as readonly string[]).includes(name) ? name : null;
+}
+
+const CTRL = 1, ALT = 2, SHIFT = 4, META = 8;
+const MODIFIER_BITS: Record<string, number> = { Ctrl: CTRL, Alt: ALT, Shift: SHIFT, Meta: META };
+
+function eventModifiers(e: { ctrlKey: boolean, altKey: boolean, shiftKey: boolean, metaKey: boolean }) {
+    return (e.ctrlKey ? CTRL : 0) | (e.altKey ? ALT : 0) | (e.shiftKey ? SHIFT : 0) | (e.metaKey ? META : 0);
+}
+
+interface CompiledHotkey {
+    binding: HotkeyBinding;
+    modifiers: number;
+    trigger: HotkeyTrigger;
+    holdMs: number;
+}
+
+export interface HotkeyRegistry {
+    // Replaces the bindings. Anything held down or half-way through a gesture is released first.
+    update(bindings: HotkeyBinding[]): void;
+    keydown(e: UiohookKeyboardEvent): void;
+    keyup(e: UiohookKeyboardEvent): void;
+    mousedown(e: UiohookMouseEvent): void;
+    mouseup(e: UiohookMouseEvent): void;
+}
+
+// `onActivate` runs when a binding's gesture completes; `onRelease` when the key or button of
+// an activated binding goes up again, whatever the modifiers did meanwhile (for push-to-talk)
+export function createHotkeyRegistry(onActivate: (binding: HotkeyBinding) => void, onRelease: (binding: HotkeyBinding) => void): HotkeyRegistry {
+    // "key:<code>" or "mouse:<button>" -> the bindings on it
+    let byInput = new Map<string, CompiledHotkey[]>();
+    // Inputs currently down; key repeat sends keydown over and over while a key is held
+    const held = new Set<string>();
+    const active = new Set<CompiledHotkey>();
+    const holdTimers = new Map<CompiledHotkey, NodeJS.Timeout>();
+    const lastTaps = new Map<CompiledHotkey, number>();
+
+    const activate = (hotkey: CompiledHotkey) => {
+        active.add(hotkey);
+        onActivate(hotkey.binding);
+    };
+
+    const down = (input: string, modifiers: number) => {
+        if (held.has(input)) return;
+        held.add(input);
+        for (const hotkey of byInput.get(input) || []) {
+            if (hotkey.modifiers !== modifiers) continue;
+            if (hotkey.trigger === 'press') {
+                activate(hotkey);
+            } else if (hotkey.trigger === 'hold') {
+                holdTimers.set(hotkey, setTimeout(() => {
+                    holdTimers.delete(hotkey);
+                    activate(hotkey);
+                }, hotkey.holdMs));
+            } else {
+                const now = Date.now();
+                const last = lastTaps.get(hotkey);
+                if (last !== undefined && now - last <= DOUBLE_TAP_MS) {
+                    lastTaps.delete(hotkey);
+                    activate(hotkey);
+                } else {
+                    lastTaps.set(hotkey, now);
+                }
+            }
+        }
+    };
+
+    // A hold only counts while the modifiers stay as they were when it started. uiohook reports a
+    // modifier's own press or release with the state already updated.
+    const checkHolds = (modifiers: number) => {
+        for (const [hotkey, timer] of holdTimers) {
+            if (hotkey.modifiers === modifiers) continue;
+            clearTimeout(timer);
+            holdTimers.delete(hotkey);
+        }
+    };
+
+    const up = (input: string) => {
+        held.delete(input);
+        for (const hotkey of byInput.get(input) || []) {
+            // Let go too early: the hold doesn't count
+            const timer = holdTimers.get(hotkey);
+            if (timer) clearTimeout(timer);
+            holdTimers.delete(hotkey);
+            if (active.delete(hotkey)) onRelease(hotkey.binding);
+        }
+    };
+
+    return {
+        update(bindings) {
+            for (const timer of holdTimers.values()) clearTimeout(timer);
+            holdTimers.clear();
+            lastTaps.clear();
+            for (const hotkey of active) onRelease(hotkey.binding);
+            active.clear();
+
+            byInput = new Map();
+            for (const binding of bindings) {
+                const shortcut = binding.keys ? parseShortcut(binding.keys) : null;
+                if (!shortcut) continue;
+                const input = shortcut.key.startsWith('Mouse') ? `mouse:${shortcut.key}` : `key:${shortcut.key}`;
+                const hotkey = {
+                    binding,
+                    modifiers: [...shortcut.modifiers].reduce((bits, m) => bits | MODIFIER_BITS[m], 0),
+                    trigger: binding.trigger || 'press',
+                    holdMs: binding.holdMs || DEFAULT_HOLD_MS
+                };
+                byInput.set(input, [...(byInput.get(input) || []), hotkey]);
+            }
+        },
+
+        keydown(e) {
+            checkHolds(eventModifiers(e));
+            const code = CODES.get(e.keycode);
+            if (code) down(`key:${code}`, eventModifiers(e));
+        },
+
+        keyup(e) {
+            checkHolds(eventModifiers(e));
+            const code = CODES.get(e.keycode);
+            if (code) up(`key:${code}`);
+        },
+
+        mousedown(e) {
+            const name = mouseButtonName(e.button);
+            if (name) down(`mouse:${name}`, eventModifiers(e));
+        },
+
+        mouseup(e) {
+            const name = mouseButtonName(e.button);
+            if (name) up(`mouse:${name}`);
+        }
+    };
+}
@@ -1,16 +1,80 @@
-import { app, BrowserWindow, ipcMain, dialog, Notification, Tray, Menu, nativeImage, shell, session, desktopCapturer } from 'electron';
-import { uIOhook, UiohookKey } from 'uiohook-napi';
+import { app, BrowserWindow, ipcMain, dialog, Notification, Tray, Menu, nativeImage, shell, session, desktopCapturer, protocol, screen, Display } from 'electron';
+import { uIOhook } from 'uiohook-napi';
 import * as path from 'path';
 import * as fs from 'fs';
 
 import { spawn, ChildProcess } from 'child_process';
-import _ffmpeg from 'ffmpeg-static';
-
-const ffmpeg = (_ffmpeg as string).replace('app.asar', 'app.asar.unpacked');
-
+import { ffmpeg, lastErrorLine } from './ffmpeg';
+import { getCaptureBackend, buildRecordArgs, Rect, VideoSource } from './capture';
+import { cameraError } from './capture/webcam';
+import { createAudioSocket, AudioSocket } from './capture/audiosocket';
+import { probeEncoders, pickEncoder, isEncoderError, ENCODERS } from './encoders';
+import { loadConfig, saveConfig } from './config';
+import { createReplayBuffer, readSegmentIndex, readSegments, ReplayBuffer } from './buffer';
+import { createTsIndexer, PTS_HZ } from './mpegts';
+import { createSessionWriter, finalizePart, SessionWriter } from './session';
+import { createBookmarkList, bookmarksInClip, chapterMetadata, writeBookmarks, bookmarkSidecarPath } from './bookmarks';
+import { createProgressParser, healthWarnings, FfmpegProgress } from './progress';
+import { createSupervisor } from './supervisor';
+import { extractLevels, gateCommand } from './mixer';
+import { createHotkeyRegistry } from './hotkeys';
+import { listClips, probeClip, getThumbnail, renameClip, resolveClip, serveClip, starClip, registerClip, forgetClip, clipCounter, clipName, uniqueClipPath } from './clips';
+import { applyRetention, retentionPolicy, describeRemoved, checkSpace } from './retention';
+import { trimClip, TrimOptions } from './trim';
+import { createExportQueue } from './exporter';
+import { createSaveQueue } from './saves';
+import { exportPreset, importPreset } from './presets';
+import { createControlServer, controlError } from './control';
+import { CliCommand, CliResponse, CLI_USAGE, EXIT_OK, EXIT_FAILED, EXIT_USAGE, EXIT_NOT_RUNNING, parseCliArgs, cliSocketPath, serveCli, sendCliCommand } from './cli';
+import { REPLAY_DURATIONS, HotkeyBinding } from '../shared/hotkeys';
+import { CaptureSourceList, CameraInfo } from '../shared/capture';
+import { ClipNameContext, renderClipPath } from '../shared/filenames';
+import { Config, CaptureSource, CONFIG_VERSION, DEFAULT_CONFIG, OUTPUT_HEIGHTS, PRESET_FIELDS, MIXER_FIELDS, WEBCAM_FIELDS, SaveConfigResult, newControlToken, presetSettings, validateConfig } from '../shared/config';
+import { EncoderFallback } from '../shared/encoders';
+import { RecorderStats } from '../shared/stats';
+import { RecorderStatus } from '../shared/recorder';
+import { SessionStatus, IDLE_SESSION } from '../shared/session';
+import { AudioLevels, AudioSourceId, MicState, MIC_STATE_LABELS } from '../shared/audio';
+
+// Named first: the userData path and the single-instance lock both follow the name
 app.setAppUserModelId("ShadowWarp");
 app.name = "ShadowWarp";
 
+// Only one ShadowWarp runs at a time. A second launch with a command (see cli.ts) hands it to
+// the running instance, prints the reply and exits with its code; without one it just exits.
+// Decided before any other setup, so a launch that is about to exit leaves no trace.
+const cliArgs = parseCliArgs(process.argv);
+const cliCommand = cliArgs && 'error' in cliArgs ? null : cliArgs as CliCommand | null;
+const cliSocket = cliSocketPath(app.getPath('userData'));
+let isPrimaryInstance = false;
+// --start or --preset given when no instance was running: this launch carries it out itself
+let launchCommand: CliCommand | null = null;
+if (cliArgs && 'error' in cliArgs) {
+    console.error(`${cliArgs.error}\n\n${CLI_USAGE}`);
+    app.exit(EXIT_USAGE);
+} else if (!app.requestSingleInstanceLock()) {
+    if (cliCommand) {
+        sendCliCommand(cliSocket, cliCommand).then((response) => {
+            if (response.code === EXIT_OK) console.log(response.message);
+            else console.error(response.message);
+            app.exit(response.code);
+        });
+    } else {
+        app.exit(EXIT_OK);
+    }
+} else if (cliCommand && cliCommand.name !== 'start' && cliCommand.name !== 'preset') {
+    console.error('ShadowWarp is not running');
+    app.exit(EXIT_NOT_RUNNING);
+} else {
+    isPrimaryInstance = true;
+    launchCommand = cliCommand;
+}
+
+// clip://media/<name> streams saved clips into the renderer's <video> (must be registered before ready)
+protocol.registerSchemesAsPrivileged([
+    { scheme: 'clip', privileges: { standard: true, secure: true, stream: true, supportFetchAPI: true } }
+]);
+
 // Global safety net: catch EPIPE and other stream errors that would crash the app
 process.on('uncaughtException', (err) => {
     const code = (err as NodeJS.ErrnoException).code;
@@ -33,212 +97,418 @@ let isStartingRecording = false;
 let recordProcess: ChildProcess | null = null;
 let recordingStartTime = 0;
 let useSystemAudio = false;
-
-let videoBuffer: { time: number, chunk: Buffer }[] = [];
-let totalBytes = 0;
-
-let config = {
-    fps: '60',
-    codec: 'h264_nvenc',
-    bitrate: '15',
-    bufferTime: '300',
-    outputFolder: '',
-    shortcut: 'Alt+F10',
-    autoStart: false,
-    autoRecord: true,
-    audioDevice: 'Default',
-    systemAudioDevice: 'Default'
-};
+// Where the renderer's system audio goes while FFmpeg records it
+let systemAudioSocket: AudioSocket | null = null;
+// Titles of the audio tracks the current recording produces, in stream order
+let recordingAudioTracks: string[] = [];
+// Encoder the buffered stream was produced with
+let recordingEncoder: string | null = null;
+// Latest meter reading per audio source, sent to the renderer at most ten times a second
+let audioLevels: AudioLevels = {};
+let audioLevelsSentAt = 0;
+// Sources in the running recorder's filter graph, and the gate state FFmpeg was last given for each
+let recordingAudioSources: AudioSourceId[] = [];
+let appliedAudioGates: Record<AudioSourceId, boolean> = { system: true, microphone: true };
+// Global hotkeys, compiled from config.hotkeys
+const hotkeys = createHotkeyRegistry(runHotkey, releaseHotkey);
+// A push-to-talk hotkey is held down
+let pushToTalkHeld = false;
+let lastMicState: MicState | null = null;
+// Restarts FFmpeg when it exits without being asked to
+const supervisor = createSupervisor();
+let recorderStatus: RecorderStatus = { state: 'idle', reason: null, attempt: 0, maxAttempts: supervisor.maxAttempts, retryAt: null };
+// Set while recording with something other than config.codec
+let activeFallback: EncoderFallback | null = null;
+// Encoders that failed at runtime this session -> reason; skipped until the app restarts
+const failedEncoders = new Map<string, string>();
+// Camera that failed while recording; restarts leave the overlay out until it's changed or recording is started by hand
+let failedCamera: string | null = null;
 
 const configPath = path.join(app.getPath('userData'), 'config.json');
-try {
-    if (fs.existsSync(configPath)) {
-        Object.assign(config, JSON.parse(fs.readFileSync(configPath, 'utf8')));
-    }
-} catch (e) {
-    console.error("Failed to load config:", e);
-}
+// Shown once the app is ready: what upgrading an older config changed
+const configNotices: string[] = [];
+// Loading may migrate and rewrite the file, which is the running instance's to do
+let config: Config = isPrimaryInstance ? loadConfig(configPath, configNotices) : { ...DEFAULT_CONFIG };
 
 function saveConfigToDisk() {
-    try { fs.writeFileSync(configPath, JSON.stringify(config, null, 2)); } catch (e) { console.error("Failed to save config:", e); }
+    saveConfig(configPath, config);
 }
 
 const tempDir = path.join(app.getPath('userData'), 'shadowarp_buffers');
+const thumbnailDir = path.join(app.getPath('userData'), 'thumbnails');
+const counterPath = path.join(app.getPath('userData'), 'clip-counter.json');
 const isDev = process.env.NODE_ENV !== 'production' && !app.isPackaged;
 const iconPath = isDev
     ? path.join(__dirname, '..', '..', 'public', 'icon.png')
     : path.join(__dirname, '..', '..', 'dist', 'icon.png');
-const BUFFER_FILE = path.join(tempDir, 'buffer.m3u8');
-
-function ensureDir(dir: string) {
-    if (!fs.existsSync(dir)) fs.mkdirSync(dir, { recursive: true });
+// Live segment ring (disk buffer mode) and the ring rescued from a crashed session
+const ringDir = path.join(tempDir, 'ring');
+const recoveredDir = path.join(tempDir, 'recovered');
+
+let replayBuffer: ReplayBuffer = createReplayBuffer('memory', ringDir);
+let hasRecoveredBuffer = false;
+// Keyframe index over replayBuffer, kept in step with its eviction
+const tsIndex = createTsIndexer();
+// Marked moments in replayBuffer, evicted along with it
+const bookmarks = createBookmarkList();
+// Full-session recording fed from the same stream, while one is running
+let sessionWriter: SessionWriter | null = null;
+let sessionStartedAt = 0;
+// Finished session parts are remuxed to MP4 one at a time
+let finalizingParts = Promise.resolve();
+
+// Snapshot reported by the control API and `--status`
+function appStatus() {
+    return {
+        state: recorderStatus.state,
+        recording: isRecording,
+        saving: saveQueue.pending > 0,
+        bufferedSeconds: Math.round(bufferedSeconds() * 10) / 10,
+        bufferLength: config.bufferTime,
+        preset: config.presets.find(p => p.id === config.activePreset)?.name || null,
+        lastClip: lastClipPath,
+        sessionRecording: sessionWriter !== null,
+        microphone: micState()
+    };
 }
 
-function startRecording() {
-    if (isRecording || isStartingRecording) return;
-    isStartingRecording = true;
-    ensureDir(tempDir);
+const controlServer = createControlServer({
+    status: appStatus,
+    saveReplay: (seconds) => {
+        const unavailable = replayUnavailableReason();
+        if (unavailable) throw controlError(409, unavailable);
+        saveReplay(seconds);
+        // The file name is only known once FFmpeg finishes; it arrives as a replay-saved event
+        return { ok: true, seconds: seconds > 0 ? Math.min(seconds, config.bufferTime) : config.bufferTime };
+    },
+    startRecording: () => {
+        startRecordingManually();
+        return { ok: true };
+    },
+    stopRecording: () => {
+        stopRecording();
+        return { ok: true };
+    },
+    recentClips: (limit) => {
+        const folder = getOutputFolder();
+        return listClips(folder).slice(0, limit).map(clip => ({ ...clip, path: path.join(folder, clip.name) }));
+    }
+});
 
-    // Clean up old buffer files if they exist
-    try {
-        if (fs.existsSync(tempDir)) {
-            const files = fs.readdirSync(tempDir);
-            for (const file of files) {
-                fs.unlinkSync(path.join(tempDir, file));
-            }
+const saveQueue = createSaveQueue({
+    workDir: tempDir,
+    concurrency: () => config.saveConcurrency,
+    onChange: (jobs) => {
+        if (mainWindow && !mainWindow.isDestroyed()) mainWindow.webContents.send('save-jobs', jobs);
+    }
+});
+
+const exportQueue = createExportQueue({
+    workDir: tempDir,
+    onChange: (jobs) => {
+        if (mainWindow && !mainWindow.isDestroyed()) mainWindow.webContents.send('export-jobs', jobs);
+    },
+    onFinished: (job) => {
+        controlServer.broadcast('export-finished', job);
+        if (job.state === 'failed') {
+            console.error(`Export "${job.presetName}" of ${job.clip} failed: ${job.error}`);
+            new Notification({ title: 'ShadowWarp', body: `Export "${job.presetName}" failed: ${job.error}`, icon: iconPath }).show();
+            return;
         }
-    } catch (e) { /* ignore */ }
+        const notif = new Notification({ title: 'ShadowWarp', body: `Export "${job.presetName}" finished.\nClick to view in folder.`, icon: iconPath });
+        notif.on('click', () => shell.showItemInFolder(job.output));
+        notif.show();
+    }
+});
 
-    const fetchDevices = () => new Promise<string[]>((resolve) => {
-        const proc = spawn(ffmpeg, ['-list_devices', 'true', '-f', 'dshow', '-i', 'dummy'], { windowsHide: true });
-        let output = '';
-        proc.stderr.on('data', d => output += d.toString());
-        proc.on('close', () => {
-            const matches = [...output.matchAll(/\]\s+"([^"]+)"\s+\(audio\)/g)];
-            resolve(matches.map(m => m[1]));
-        });
+// Queues `presetId` for a clip in the output folder; exports land in its Exports subfolder
+function exportClip(file: string, presetId: string) {
+    const preset = config.exportPresets.find(p => p.id === presetId);
+    if (!preset) throw new Error(`No export preset "${presetId}"`);
+    return exportQueue.add(file, preset, path.join(getOutputFolder(), 'Exports'));
+}
+
+function updateControlServer() {
+    if (!config.controlApiEnabled) {
+        controlServer.stop();
+        return;
+    }
+    controlServer.start(config.controlApiPort, config.controlApiToken).then(() => {
+        console.log(`Control API listening on http://127.0.0.1:${config.controlApiPort}`);
+    }).catch((err) => {
+        console.error('Control API failed to start:', err);
+        new Notification({ title: 'ShadowWarp', body: `Control API could not listen on port ${config.controlApiPort}: ${err.message}`, icon: iconPath }).show();
     });
+}
 
-    fetchDevices().then((currentDevices) => {
-        if (isRecording) { isStartingRecording = false; return; }
-        useSystemAudio = config.systemAudioDevice !== 'None';
-
-        const args = [
-            '-y',
-        ];
-
-        // System audio via stdin (pipe:0) — WebM Opus stream from Electron renderer
-        if (useSystemAudio) {
-            args.push(
-                '-thread_queue_size', '4096',
-                '-f', 'webm',
-                '-i', 'pipe:0'
-            );
+// A display's area in physical pixels on the virtual desktop
+function physicalBounds(display: Display): Rect {
+    if (process.platform === 'win32') return screen.dipToScreenRect(null, display.bounds);
+    const f = display.scaleFactor;
+    const { x, y, width, height } = display.bounds;
+    return { x: Math.round(x * f), y: Math.round(y * f), width: Math.round(width * f), height: Math.round(height * f) };
+}
+
+// Display id -> DXGI output index. ddagrab numbers outputs the DXGI way, which needn't match
+// the order of getAllDisplays(); Chromium's screen sources on Windows are numbered the same
+// way ("screen:<output>:0") and say which display they show.
+async function dxgiOutputs() {
+    const outputs = new Map<number, number>();
+    if (process.platform !== 'win32') return outputs;
+    try {
+        const sources = await desktopCapturer.getSources({ types: ['screen'], thumbnailSize: { width: 0, height: 0 } });
+        for (const s of sources) {
+            const output = parseInt(s.id.split(':')[1]);
+            if (s.display_id && Number.isInteger(output)) outputs.set(Number(s.display_id), output);
         }
+    } catch (e) { /* fall back to display order */ }
+    return outputs;
+}
 
-        const fpsNum = parseInt(config.fps) || 60;
+// Pins the configured source to the displays connected right now. A monitor that has been
+// unplugged falls back to the first one, and regions are clamped to their monitor.
+function resolveVideoSource(source: CaptureSource, outputs: Map<number, number>): VideoSource {
+    if (source.kind === 'window') {
+        return { monitor: 0, monitorBounds: null, crop: null, window: { id: source.id, title: source.title } };
+    }
+    const displays = screen.getAllDisplays();
+    const index = source.monitor < displays.length ? source.monitor : 0;
+    const display = displays[index];
+    const monitor = display ? outputs.get(display.id) ?? index : index;
+    const bounds = display ? physicalBounds(display) : null;
+    if (source.kind === 'monitor') return { monitor, monitorBounds: bounds, crop: null, window: null };
+
+    let crop: Rect = { x: source.x, y: source.y, width: source.width, height: source.height };
+    if (bounds) {
+        const x = Math.min(crop.x, bounds.width - 16);
+        const y = Math.min(crop.y, bounds.height - 16);
+        crop = { x, y, width: Math.min(crop.width, bounds.width - x), height: Math.min(crop.height, bounds.height - y) };
+    }
+    return { monitor, monitorBounds: bounds, crop, window: null };
+}
+
+// Monitors and open windows for the settings picker, with small previews
+async function listCaptureSources(): Promise<CaptureSourceList> {
+    const displays = screen.getAllDisplays();
+    const primaryId = screen.getPrimaryDisplay().id;
+    const sources = await desktopCapturer.getSources({ types: ['screen', 'window'], thumbnailSize: { width: 320, height: 180 } });
+    const ownWindow = mainWindow && !mainWindow.isDestroyed() ? mainWindow.getMediaSourceId() : null;
+    return {
+        monitors: displays.map((display, index) => {
+            const bounds = physicalBounds(display);
+            const source = sources.find(s => s.display_id === String(display.id));
+            return {
+                index,
+                label: display.label || `Display ${index + 1}`,
+                width: bounds.width,
+                height: bounds.height,
+                primary: display.id === primaryId,
+                thumbnail: source && !source.thumbnail.isEmpty() ? source.thumbnail.toDataURL() : ''
+            };
+        }),
+        // Source ids look like "window:<native handle>:0"
+        windows: sources
+            .filter(s => s.id.startsWith('window:') && s.id !== ownWindow && s.name)
+            .map(s => ({ id: s.id.split(':')[1], title: s.name, thumbnail: s.thumbnail.isEmpty() ? '' : s.thumbnail.toDataURL() }))
+    };
+}
 
-        // Screen capture via ddagrab (Desktop Duplication API) - native DXGI
-        // Solves the blinking cursor bug inherent to Windows GDI capture.
-        args.push(
-            '-init_hw_device', 'd3d11va=dx11',
-            '-filter_hw_device', 'dx11',
-            '-thread_queue_size', '4096',
-            '-f', 'lavfi',
-            '-i', `ddagrab=framerate=${fpsNum}:draw_mouse=1`
-        );
+function ensureDir(dir: string) {
+    if (!fs.existsSync(dir)) fs.mkdirSync(dir, { recursive: true });
+}
 
-        let audioInputs = 0;
-        const videoInputIndex = useSystemAudio ? 1 : 0;
-        const sysAudioInputIndex = useSystemAudio ? 0 : -1;
+// `keepBuffer` is set for supervisor restarts and respawns: the new process appends to what's already
+// buffered, provided it produces the same streams.
+function startRecording(keepBuffer = false) {
+    if (isRecording || isStartingRecording) return;
+    isStartingRecording = true;
+    ensureDir(tempDir);
 
-        if (useSystemAudio) {
-            audioInputs++;
-        }
+    if (!keepBuffer) {
+        // Segments a queued save still reads are kept until it's done with them
+        replayBuffer.clear();
+        tsIndex.clear();
+        bookmarks.clear();
+    }
 
-        // Microphone via dshow
-        let mappedMic = config.audioDevice;
-        if (mappedMic === 'Default') {
-            mappedMic = currentDevices[0] || 'None';
-        }
+    const backend = getCaptureBackend(config.captureBackend);
+    // Only looked for when an overlay is wanted
+    const wantsCamera = config.webcamDevice !== 'None' && config.webcamDevice !== failedCamera;
+    const cameraList = wantsCamera ? backend.listCameras().catch((): CameraInfo[] => []) : Promise.resolve([]);
 
-        const micInputIndex = useSystemAudio ? 2 : 1;
+    Promise.all([backend.listAudioDevices(), probeEncoders(), cameraList, dxgiOutputs()]).then(([currentDevices, encoders, cameras, outputs]) => {
+        if (isRecording) { isStartingRecording = false; return; }
 
-        if (mappedMic && mappedMic !== 'None' && currentDevices.includes(mappedMic)) {
-            args.push('-thread_queue_size', '4096', '-f', 'dshow', '-i', `audio=${mappedMic}`);
-            audioInputs++;
+        const encoder = pickEncoder(config.codec, config.encoderFallback, encoders, new Set(failedEncoders.keys()));
+        if (!encoder) {
+            isStartingRecording = false;
+            stopSession();
+            setRecorderStatus({ state: 'failed', reason: 'No working video encoder found', attempt: supervisor.attempts, retryAt: null });
+            new Notification({ title: 'ShadowWarp', body: 'No working video encoder found. Recording stopped.', icon: iconPath }).show();
+            return;
+        }
+        if (encoder === config.codec) {
+            activeFallback = null;
+        } else if (encoder !== activeFallback?.to || config.codec !== activeFallback.from) {
+            const reason = failedEncoders.get(config.codec) || encoders.find(s => s.id === config.codec)?.error || 'Not available';
+            activeFallback = { from: config.codec, to: encoder, reason };
+            notifyEncoderFallback(activeFallback);
         }
 
-        // Map video
-        args.push('-map', `${videoInputIndex}:v`);
-
-        if (audioInputs === 1 && useSystemAudio) {
-            // Only system audio
-            args.push('-map', `${sysAudioInputIndex}:a`, '-c:a', 'aac', '-b:a', '256k');
-        } else if (audioInputs === 1 && !useSystemAudio) {
-            // Only mic
-            args.push('-map', `${micInputIndex}:a`, '-c:a', 'aac', '-b:a', '256k');
-        } else if (audioInputs === 2) {
-            // Both system audio and mic — mix them
-            args.push(
-                '-filter_complex', `[${sysAudioInputIndex}:a][${micInputIndex}:a]amix=inputs=2:duration=longest[aout]`,
-                '-map', '[aout]',
-                '-c:a', 'aac', '-b:a', '256k'
-            );
+        const wantsSystemAudio = config.systemAudioDevice !== 'None';
+        // System audio only goes through the socket when the renderer captures it
+        useSystemAudio = wantsSystemAudio && backend.systemAudio === 'renderer';
+        const audioSocket = useSystemAudio ? createAudioSocket() : null;
+        systemAudioSocket = audioSocket;
+
+        const recordOptions = {
+            fps: config.fps,
+            codec: encoder,
+            bitrate: config.bitrate,
+            systemAudio: wantsSystemAudio,
+            rendererAudio: audioSocket?.url || null,
+            microphone: backend.resolveMicrophone(config.audioDevice, currentDevices),
+            audioTrackMode: config.audioTrackMode,
+            mixer: config,
+            audioGates: audioGates(),
+            // A camera that isn't connected is left out rather than failing the whole recording
+            camera: cameras.some(c => c.id === config.webcamDevice) ? config.webcamDevice : null,
+            webcam: config,
+            timestampOffset: 0,
+            source: resolveVideoSource(config.captureSource, outputs),
+            outputHeight: OUTPUT_HEIGHTS[config.outputResolution]
+        };
+        // Clips can't span a change of codec or audio layout (e.g. the mic was unplugged),
+        // so the buffer only carries over when the new process muxes identical streams
+        const continuing = keepBuffer && replayBuffer.totalBytes > 0 && tsIndex.lastPts !== null
+            && replayBuffer.mode === config.bufferMode
+            && encoder === recordingEncoder
+            && buildRecordArgs(backend, recordOptions).audioTracks.join() === recordingAudioTracks.join();
+        if (continuing) {
+            recordOptions.timestampOffset = tsIndex.lastPts / PTS_HZ;
+            tsIndex.discontinuity();
+            console.log(`Continuing replay buffer (${replayBuffer.totalBytes} bytes) after restart`);
+        } else {
+            if (keepBuffer) console.log('Recorder restarted with different streams, starting a fresh buffer');
+            // A session file can't change streams midway either, so it continues in a new part
+            if (sessionWriter) sessionWriter.split();
+            replayBuffer.clear();
+            tsIndex.clear();
+            bookmarks.clear();
+            if (config.bufferMode === 'disk') ensureDir(ringDir);
+            replayBuffer = createReplayBuffer(config.bufferMode, ringDir);
         }
-        // audioInputs === 0: no audio mapping needed
-
-        args.push(
-            // Hardware translation of pure DXGI frames back to standard colorspace for universal encoder compat
-            '-vf', 'hwdownload,format=bgra',
-            // Video encoding
-            '-c:v', config.codec,
-            ...(config.codec.includes('nvenc') ? ['-preset', 'p5'] : ['-preset', 'ultrafast']),
-            '-b:v', `${config.bitrate}M`,
-            // Force constant framerate — prevents variable timing that causes stutters
-            '-vsync', 'cfr',
-            // GOP size: keyframe every 2 seconds
-            '-g', String(fpsNum * 2),
-            // Output to TS pipe for memory streaming
-            '-f', 'mpegts',
-            '-mpegts_flags', '+resend_headers',
-            'pipe:1'
-        );
+
+        if (wantsCamera && !recordOptions.camera) console.log(`Camera "${config.webcamDevice}" not found, recording without the overlay`);
+        const { args, audioTracks, audioSources, cameraInput } = buildRecordArgs(backend, recordOptions);
+        const camera = recordOptions.camera;
+        recordingAudioTracks = audioTracks;
+        recordingAudioSources = audioSources;
+        appliedAudioGates = recordOptions.audioGates;
+        recordingEncoder = encoder;
 
         console.log(`Spawning ffmpeg with: `, args.join(' '));
         recordingStartTime = Date.now();
         recordProcess = spawn(ffmpeg, args, {
-            stdio: useSystemAudio ? ['pipe', 'pipe', 'pipe'] : ['ignore', 'pipe', 'pipe'],
+            // stdin takes gate commands
+            stdio: ['pipe', 'pipe', 'pipe'],
             windowsHide: true
         });
 
-        videoBuffer = [];
-        totalBytes = 0;
-
-        recordProcess.stdout?.on('data', (chunk: Buffer) => {
-            const copy = Buffer.allocUnsafe(chunk.length);
-            chunk.copy(copy);
-
-            videoBuffer.push({ time: Date.now(), chunk: copy });
-            totalBytes += copy.length;
-
-            const bufferSecs = parseInt(config.bufferTime) || 300;
-            const cutoff = Date.now() - (bufferSecs + 15) * 1000;
-            const hardLimit = 2.5 * 1024 * 1024 * 1024;
-
-            let removeCount = 0;
-            while (removeCount < videoBuffer.length - 2 && (videoBuffer[removeCount].time < cutoff || totalBytes > hardLimit)) {
-                totalBytes -= videoBuffer[removeCount].chunk.length;
-                removeCount++;
+        supervisor.started();
+
+        const thisProcess = recordProcess;
+        let producedOutput = false;
+        let stderrTail = '';
+        let lastProgress: FfmpegProgress | null = null;
+        const progressParser = createProgressParser((progress) => {
+            // Commands that arrive before FFmpeg has set up its filter graph are dropped, so the
+            // gates are sent again once it's encoding
+            if (!lastProgress) updateAudioGates(true);
+            sendRecorderStats(encoder, progress, lastProgress);
+            lastProgress = progress;
+            if (sessionWriter) sendSessionStatus();
+        }, (text) => {
+            const { levels, rest } = extractLevels(text);
+            if (levels) sendAudioLevels(levels);
+            stderrTail = (stderrTail + rest).slice(-4000);
+            // A camera unplugged mid-recording may stall rather than end, holding up the overlay and
+            // with it the whole video track, so FFmpeg is swapped for one without the camera
+            if (camera && producedOutput && failedCamera !== camera && cameraError(rest, camera, cameraInput)) {
+                console.error(`Camera ${camera} lost: ${rest}`);
+                failedCamera = camera;
+                notifyCameraLost(camera);
+                if (recordProcess === thisProcess) respawnRecorder();
             }
+        });
 
-            if (removeCount > 0) {
-                videoBuffer = videoBuffer.slice(removeCount);
-            }
+        recordProcess.stdout?.on('data', (chunk: Buffer) => {
+            const now = Date.now();
+            producedOutput = true;
+            const chunkOffset = replayBuffer.endOffset;
+            const knownKeyframes = tsIndex.keyframes.length;
+            replayBuffer.append(chunk, now);
+            tsIndex.push(chunk, now);
+            // Keyframes found in this chunk are where a session may start a new part
+            if (sessionWriter) sessionWriter.append(chunk, tsIndex.keyframes.slice(knownKeyframes).map(k => Math.max(0, k.offset - chunkOffset)));
+
+            replayBuffer.evict(now - (config.bufferTime + 15) * 1000);
+            tsIndex.evict(replayBuffer.startOffset);
+            bookmarks.evict(replayBuffer.startOffset);
         });
 
-        recordProcess.stderr?.on('data', () => {});
+        recordProcess.stderr?.on('data', (d: Buffer) => progressParser.push(d));
 
-        if (recordProcess.stdin) {
-            recordProcess.stdin.on('error', (err) => {
-                console.warn('FFmpeg stdin error (expected if FFmpeg exited):', err.message);
-            });
-        }
+        recordProcess.stdin?.on('error', (err) => {
+            console.warn('FFmpeg pipe error (expected if FFmpeg exited):', err.message);
+        });
 
-        recordProcess.on('exit', (code) => {
+        recordProcess.on('exit', (code, signal) => {
             console.log('FFmpeg exited with code:', code);
+            audioSocket?.close();
+            // stopRecording() clears isRecording first, so this is only true for unexpected exits
+            const unexpected = isRecording && recordProcess === thisProcess;
             isRecording = false;
             useSystemAudio = false;
+            audioLevels = {};
             if (mainWindow && !mainWindow.isDestroyed()) {
                 mainWindow.webContents.send('recording-state', false);
                 mainWindow.webContents.send('stop-system-audio');
+                mainWindow.webContents.send('audio-levels', audioLevels);
+            }
+
+            if (!unexpected) return;
+            recordProcess = null;
+            const reason = lastErrorLine(stderrTail) || (signal ? `FFmpeg was killed (${signal})` : `FFmpeg exited with code ${code}`);
+
+            // An encoder that passed the probe can still fail for real (e.g. out of NVENC sessions).
+            // Without a single byte of output the encode never started, so retry with the next one in the chain.
+            if (code !== 0 && !producedOutput && isEncoderError(stderrTail, encoder)) {
+                console.error(`Encoder ${encoder} failed: ${stderrTail}`);
+                failedEncoders.set(encoder, reason);
+                // The fallback notification says what happened, once the next encoder starts
+                handleRecorderCrash(reason, false);
+                return;
+            }
+            // Likewise a camera that won't open (busy in another app, unplugged since it was listed):
+            // record without it rather than not at all
+            if (camera && code !== 0 && !producedOutput && cameraError(stderrTail, camera, cameraInput)) {
+                console.error(`Camera ${camera} failed: ${stderrTail}`);
+                failedCamera = camera;
+                notifyCameraLost(camera);
+                handleRecorderCrash(reason, false);
+                return;
             }
+
+            console.error(`Recorder exited unexpectedly: ${stderrTail}`);
+            handleRecorderCrash(reason);
         });
 
         isRecording = true;
         isStartingRecording = false;
         config.autoRecord = true;
         saveConfigToDisk();
+        setRecorderStatus({ state: 'recording', reason: null, attempt: supervisor.attempts, retryAt: null });
 
         if (mainWindow && !mainWindow.isDestroyed()) {
             mainWindow.webContents.send('recording-state', true);
@@ -251,129 +521,680 @@ function startRecording() {
     });
 }
 
+// Unexpected exits restart with backoff until the retry budget runs out. The buffer stays
+// intact meanwhile, so the moment before the crash can still be saved.
+function handleRecorderCrash(reason: string, announce = true) {
+    const delay = supervisor.scheduleRestart(() => startRecording(true));
+    if (delay === null) {
+        console.error(`Recorder failed ${supervisor.attempts} restarts in a row, giving up`);
+        stopSession();
+        setRecorderStatus({ state: 'failed', reason, attempt: supervisor.attempts, retryAt: null });
+        new Notification({ title: 'ShadowWarp', body: `Recording stopped after repeated failures:\n${reason}`, icon: iconPath }).show();
+        return;
+    }
+    console.log(`Restarting recorder in ${delay}ms (attempt ${supervisor.attempts}/${supervisor.maxAttempts})`);
+    setRecorderStatus({ state: 'restarting', reason, attempt: supervisor.attempts, retryAt: Date.now() + delay });
+    // One notification per outage, not per attempt
+    if (announce && supervisor.attempts === 1) {
+        new Notification({ title: 'ShadowWarp', body: `Recording stopped unexpectedly, restarting...\n${reason}`, icon: iconPath }).show();
+    }
+}
+
+function setRecorderStatus(status: Omit<RecorderStatus, 'maxAttempts'>) {
+    const previous = recorderStatus.state;
+    recorderStatus = { ...status, maxAttempts: supervisor.maxAttempts };
+    controlServer.broadcast('recorder-status', recorderStatus);
+    if (status.state !== previous) {
+        if (status.state === 'recording') controlServer.broadcast('recording-started');
+        else if (status.state === 'idle') controlServer.broadcast('recording-stopped');
+        else if (status.state === 'failed') controlServer.broadcast('recording-failed', { reason: status.reason });
+    }
+    updateTrayTooltip();
+    if (mainWindow && !mainWindow.isDestroyed()) mainWindow.webContents.send('recorder-status', recorderStatus);
+    // Session recording is only offered while recording
+    if (status.state !== previous) updateTrayMenu();
+}
+
+function sessionStatus(): SessionStatus {
+    if (!sessionWriter) return IDLE_SESSION;
+    return { active: true, startedAt: sessionStartedAt, ...sessionWriter.status };
+}
+
+function sendSessionStatus() {
+    if (mainWindow && !mainWindow.isDestroyed()) mainWindow.webContents.send('session-status', sessionStatus());
+}
+
+// Starts writing the live stream to the output folder, beginning `config.sessionPreRoll`
+// seconds back in the replay buffer
+function startSession() {
+    if (sessionWriter) return;
+    if (recorderStatus.state !== 'recording') {
+        new Notification({ title: 'ShadowWarp', body: 'Start recording before recording a session.', icon: iconPath }).show();
+        return;
+    }
+    const firstPart = newClipPath('Session', new Date());
+    const folder = path.dirname(firstPart);
+    const baseName = path.basename(firstPart, '.mp4');
+    sessionWriter = createSessionWriter({
+        // Later parts are <name>_part2, _part3..., numbered further like any clip if that's taken
+        partFile: (part) => (part === 1 ? firstPart : uniqueClipPath(folder, `${baseName}_part${part}`, saveQueue.reservedFiles()))
+            .replace(/\.mp4$/, '.ts'),
+        splitBytes: config.sessionSplitSize * 1024 * 1024,
+        splitMs: config.sessionSplitMinutes * 60 * 1000,
+        onPartClosed: finalizeSessionPart
+    });
+    sessionStartedAt = Date.now();
+
+    const keyframe = config.sessionPreRoll > 0 ? tsIndex.findStart(config.sessionPreRoll) : null;
+    if (keyframe) {
+        sessionStartedAt -= (tsIndex.lastPts - keyframe.pts) / PTS_HZ * 1000;
+        sessionWriter.preRoll(replayBuffer.read(Math.max(keyframe.offset, replayBuffer.startOffset), replayBuffer.endOffset));
+    }
+    console.log(`Session recording started${keyframe ? ` with ${config.sessionPreRoll}s pre-roll` : ''}`);
+    controlServer.broadcast('session-started');
+    sendSessionStatus();
+    updateTrayMenu();
+}
+
+function stopSession() {
+    if (!sessionWriter) return;
+    const writer = sessionWriter;
+    sessionWriter = null;
+    writer.stop();
+    console.log('Session recording stopped');
+    controlServer.broadcast('session-stopped');
+    sendSessionStatus();
+    updateTrayMenu();
+}
+
+function finalizeSessionPart(tsFile: string) {
+    const trackArgs = audioTrackMetadata(recordingAudioTracks);
+    finalizingParts = finalizingParts.then(() => finalizePart(tsFile, trackArgs).then(notifyClipSaved, (err) => {
+        console.error(`Failed to remux ${tsFile}:`, err);
+        new Notification({ title: 'ShadowWarp', body: `Session part kept as ${path.basename(tsFile)}: ${err.message}`, icon: iconPath }).show();
+    }));
+}
+
 function stopRecording() {
-    if (!isRecording) return;
+    supervisor.reset();
+    stopSession();
+    if (!isRecording) {
+        // Stopping while restarting or failed discards the kept buffer
+        if (recorderStatus.state !== 'idle') {
+            replayBuffer.clear();
+            tsIndex.clear();
+            bookmarks.clear();
+            config.autoRecord = false;
+            saveConfigToDisk();
+            setRecorderStatus({ state: 'idle', reason: null, attempt: 0, retryAt: null });
+        }
+        return;
+    }
 
     // Tell renderer to stop capturing system audio
     if (mainWindow && !mainWindow.isDestroyed()) {
         mainWindow.webContents.send('stop-system-audio');
     }
 
-    if (recordProcess) {
-        const processToKill = recordProcess;
-        // Close stdin to signal EOF to FFmpeg's pipe:0 input
-        try { processToKill.stdin?.end(); } catch (e) { /* ignore */ }
-        // Send SIGINT for graceful shutdown (equivalent to pressing 'q')
-        try { processToKill.kill('SIGINT'); } catch (e) { /* ignore */ }
-        setTimeout(() => {
-            if (!processToKill.killed) {
-                try { processToKill.kill('SIGKILL'); } catch (e) { /* ignore */ }
-            }
-            if (recordProcess === processToKill) {
-                recordProcess = null;
-            }
-        }, 3000);
-    }
+    if (recordProcess) endRecorderProcess(recordProcess);
     isRecording = false;
     useSystemAudio = false;
     config.autoRecord = false;
     saveConfigToDisk();
 
-    videoBuffer = [];
-    totalBytes = 0;
+    replayBuffer.clear();
+    tsIndex.clear();
+    bookmarks.clear();
 
     if (mainWindow && !mainWindow.isDestroyed()) mainWindow.webContents.send('recording-state', false);
+    setRecorderStatus({ state: 'idle', reason: null, attempt: 0, retryAt: null });
 }
 
-let isSavingReplay = false;
+function endRecorderProcess(processToKill: ChildProcess) {
+    // Ending the system audio stream signals EOF to FFmpeg's socket input
+    systemAudioSocket?.close();
+    systemAudioSocket = null;
+    try { processToKill.stdin?.end(); } catch (e) { /* ignore */ }
+    // Send SIGINT for graceful shutdown (equivalent to pressing 'q')
+    try { processToKill.kill('SIGINT'); } catch (e) { /* ignore */ }
+    setTimeout(() => {
+        if (!processToKill.killed) {
+            try { processToKill.kill('SIGKILL'); } catch (e) { /* ignore */ }
+        }
+        if (recordProcess === processToKill) {
+            recordProcess = null;
+        }
+    }, 3000);
+}
 
-function saveReplay() {
-    if (!isRecording) return;
-    if (isSavingReplay) {
-        console.log('Save already in progress, ignoring duplicate request.');
-        return;
-    }
+// A manual start also retries right away after the supervisor gave up
+function startRecordingManually() {
+    supervisor.reset();
+    failedCamera = null;
+    startRecording(recorderStatus.state !== 'idle');
+}
 
-    // Check that the buffer array has some content
-    if (videoBuffer.length === 0) {
-        new Notification({ title: 'ShadowWarp', body: 'No video buffered yet.', icon: iconPath }).show();
-        return;
-    }
-    if (totalBytes < 1024) {
-        new Notification({ title: 'ShadowWarp', body: 'Not enough video buffered yet.', icon: iconPath }).show();
+// Applies changed capture settings: the new FFmpeg is spawned once the old one has exited
+function restartRecording() {
+    const oldProcess = recordProcess;
+    stopRecording();
+    if (oldProcess) oldProcess.once('exit', () => startRecording());
+    else startRecording();
+}
+
+// Swaps in a new FFmpeg for changes that keep the streams the same (mixer, webcam overlay):
+// the replay buffer, its index, bookmarks and a running session carry straight on
+function respawnRecorder() {
+    const oldProcess = recordProcess;
+    if (!isRecording || !oldProcess) return;
+    // Not recording while it exits, so the exit isn't taken for a crash
+    isRecording = false;
+    useSystemAudio = false;
+    endRecorderProcess(oldProcess);
+    oldProcess.once('exit', () => {
+        // Stopped meanwhile
+        if (recorderStatus.state === 'recording') startRecording(true);
+    });
+}
+
+// Most recent clip written by any save, trim or recovery
+let lastClipPath: string | null = null;
+
+// Why a replay can't be saved right now, or null when it can
+function replayUnavailableReason() {
+    // Still allowed while the recorder restarts: the buffer from before the crash is kept
+    if (recorderStatus.state === 'idle') return 'Recording is not running';
+    if (replayBuffer.totalBytes === 0) return 'No video buffered yet';
+    if (replayBuffer.totalBytes < 1024) return 'Not enough video buffered yet';
+    return null;
+}
+
+// Saves the last `seconds` of the buffer; 0 or anything past the buffer length saves all of it.
+// The range is taken from the buffer right away and the save joins the queue, so it captures
+// this moment even while earlier saves are still running.
+// `onDone` gets the saved file, or null and the reason when nothing was saved.
+function saveReplay(seconds = 0, onDone: (file: string | null, error?: string) => void = () => { }) {
+    const unavailable = replayUnavailableReason();
+    if (unavailable) {
+        console.log(`Not saving replay: ${unavailable}`);
+        // Pressing save too early deserves feedback; a stopped recorder doesn't
+        if (recorderStatus.state !== 'idle') {
+            new Notification({ title: 'ShadowWarp', body: `${unavailable}.`, icon: iconPath }).show();
+        }
+        onDone(null, unavailable);
         return;
     }
 
-    const bufferSecs = parseInt(config.bufferTime);
-    isSavingReplay = true;
+    const bufferSecs = seconds > 0 ? Math.min(seconds, config.bufferTime) : config.bufferTime;
 
-    const outputFolder = config.outputFolder || app.getPath('videos');
+    const outputFolder = getOutputFolder();
     ensureDir(outputFolder);
-    const now = new Date();
-    const formatTime = now.toISOString().replace(/T/, '_').replace(/\..+/, '').replace(/:/g, '-');
-    const outputFile = path.join(outputFolder, `ShadowWarp_Replay_${formatTime}.mp4`);
 
-    console.log(`Saving replay: extracting exact ${bufferSecs}s from memory buffer`);
+    // Cut at the keyframe that covers the requested length so only that range is written.
+    // Without an index (e.g. unparseable stream) fall back to dumping everything and seeking from the end.
+    const keyframe = tsIndex.findStart(bufferSecs);
+    const startOffset = keyframe ? Math.max(keyframe.offset, replayBuffer.startOffset) : replayBuffer.startOffset;
+    const seekArgs = keyframe ? [] : ['-sseof', `-${bufferSecs}`];
+
+    // The temp dump and the clip are each about the size of the range being saved
+    const saveBytes = replayBuffer.endOffset - startOffset;
+    const space = checkSpace([{ dir: tempDir, bytes: saveBytes }, { dir: outputFolder, bytes: saveBytes }], config.lowSpaceWarning * 1024 * 1024 * 1024);
+    if (space.error) {
+        console.error(`Not saving replay: ${space.error}`);
+        reportReplayFailure(`Failed to save replay. ${space.error}.`);
+        onDone(null, space.error);
+        return;
+    }
+    if (space.warning) warnLowSpace(space.warning);
 
-    const tempDump = path.join(tempDir, `dump_${Date.now()}.ts`);
-    const chunksCopy = videoBuffer.map(v => v.chunk);
+    if (keyframe) {
+        const clipSecs = (tsIndex.lastPts - keyframe.pts) / PTS_HZ;
+        console.log(`Saving replay: ${clipSecs.toFixed(2)}s from keyframe at byte ${startOffset} of ${replayBuffer.mode} buffer`);
+    } else {
+        console.log(`Saving replay: no keyframe index, extracting last ${bufferSecs}s from whole ${replayBuffer.mode} buffer`);
+    }
 
-    // Async piped write avoids electron freeze on large buffers
-    const writeStream = fs.createWriteStream(tempDump);
-    let i = 0;
+    const clipDuration = keyframe ? (tsIndex.lastPts - keyframe.pts) / PTS_HZ : Math.min(bufferSecs, bufferedSeconds());
+    const clipBookmarks = bookmarksInClip(bookmarks.bookmarks, { startPts: keyframe ? keyframe.pts : null, duration: clipDuration, endTime: Date.now() });
+    const outputFile = newClipPath('Replay', new Date(), {
+        duration: clipDuration,
+        marker: clipBookmarks.length ? clipBookmarks[clipBookmarks.length - 1].label : ''
+    });
 
-    const writeNext = () => {
-        let isFlushed = true;
-        while (i < chunksCopy.length && isFlushed) {
-            isFlushed = writeStream.write(chunksCopy[i++]);
+    saveQueue.add({
+        source: replayBuffer.read(startOffset, replayBuffer.endOffset),
+        bytes: saveBytes,
+        duration: clipDuration,
+        seekArgs,
+        chapters: clipBookmarks.length ? chapterMetadata(clipBookmarks, clipDuration) : null,
+        outputArgs: audioTrackMetadata(recordingAudioTracks),
+        outputFile
+    }).then(() => {
+        try {
+            writeBookmarks(outputFile, clipBookmarks);
+        } catch (e) {
+            console.error('Failed to write bookmarks:', e);
         }
-        if (i < chunksCopy.length) {
-            writeStream.once('drain', writeNext);
+        notifyClipSaved(outputFile);
+        controlServer.broadcast('replay-saved', { file: outputFile, seconds: bufferSecs });
+        for (const preset of config.exportPresets) {
+            if (preset.auto) exportClip(outputFile, preset.id);
+        }
+        const notif = new Notification({ title: 'ShadowWarp', body: `Replay saved!\nClick to view in folder.`, icon: iconPath });
+        notif.on('click', () => {
+            shell.showItemInFolder(outputFile);
+        });
+        notif.show();
+        onDone(outputFile);
+    }, (err: Error) => {
+        if (err.message === 'Cancelled') {
+            console.log(`Save of ${outputFile} cancelled`);
         } else {
-            writeStream.end();
+            console.error(`Failed to save ${outputFile}:`, err.message);
+            reportReplayFailure(`Failed to save replay: ${err.message}`);
         }
+        onDone(null, err.message);
+    });
+}
+
+function reportReplayFailure(message: string) {
+    new Notification({ title: 'ShadowWarp', body: message, icon: iconPath }).show();
+    controlServer.broadcast('replay-failed', { error: message });
+}
+
+function warnLowSpace(message: string) {
+    console.warn(message);
+    new Notification({ title: 'ShadowWarp', body: `${message}. Free up space or turn on clip retention in Settings.`, icon: iconPath }).show();
+    controlServer.broadcast('disk-space-low', { warning: message });
+}
+
+// Titles are lost in MPEG-TS, so they're written again when remuxing into MP4. The tracks hold
+// whatever the game and the mic picked up, so their language is declared undetermined.
+function audioTrackMetadata(titles: string[]) {
+    return titles.flatMap((title, i) => [
+        `-metadata:s:a:${i}`, `title=${title}`,
+        `-metadata:s:a:${i}`, `handler_name=${title}`,
+        `-metadata:s:a:${i}`, 'language=und'
+    ]);
+}
+
+// Seconds of video a whole-buffer save would contain right now
+function bufferedSeconds() {
+    const oldest = tsIndex.keyframes[0];
+    if (!oldest || tsIndex.lastPts === null) return 0;
+    return Math.min(config.bufferTime, (tsIndex.lastPts - oldest.pts) / PTS_HZ);
+}
+
+function sendRecorderStats(encoder: string, progress: FfmpegProgress, previous: FfmpegProgress | null) {
+    if (!mainWindow || mainWindow.isDestroyed()) return;
+    const stats: RecorderStats = {
+        encoder,
+        fps: progress.fps,
+        targetFps: config.fps,
+        bitrateKbps: progress.bitrateKbps,
+        speed: progress.speed,
+        droppedFrames: progress.dropFrames,
+        duplicatedFrames: progress.dupFrames,
+        bufferedSeconds: bufferedSeconds(),
+        bufferedBytes: replayBuffer.totalBytes,
+        warnings: healthWarnings(progress, previous, config.fps)
     };
+    mainWindow.webContents.send('recorder-stats', stats);
+}
 
-    writeStream.on('finish', () => {
-        chunksCopy.length = 0;
-        let stderrOutput = '';
-        const extractProcess = spawn(ffmpeg, [
-            '-y',
-            '-sseof', `-${bufferSecs}`,
-            '-i', tempDump,
-            '-c', 'copy',
-            '-movflags', '+faststart',
-            outputFile
-        ], { windowsHide: true });
-
-        extractProcess.stderr?.on('data', (d: Buffer) => {
-            stderrOutput += d.toString();
-        });
+function sendAudioLevels(levels: AudioLevels) {
+    audioLevels = { ...audioLevels, ...levels };
+    const now = Date.now();
+    if (now - audioLevelsSentAt < 100 || !mainWindow || mainWindow.isDestroyed()) return;
+    audioLevelsSentAt = now;
+    mainWindow.webContents.send('audio-levels', audioLevels);
+}
 
-        extractProcess.on('error', (err) => {
-            console.error('Extract process error:', err);
-            isSavingReplay = false;
-            try { if (fs.existsSync(tempDump)) fs.unlinkSync(tempDump); } catch (e) { }
-            new Notification({ title: 'ShadowWarp', body: `Failed to save replay: ${err.message}`, icon: iconPath }).show();
-        });
+function encoderLabel(id: string) {
+    return ENCODERS.find(e => e.id === id)?.label || id;
+}
 
-        extractProcess.on('exit', (code) => {
-            isSavingReplay = false;
-            try { if (fs.existsSync(tempDump)) fs.unlinkSync(tempDump); } catch (e) { }
-            if (code === 0) {
-                const notif = new Notification({ title: 'ShadowWarp', body: `Replay saved!\nClick to view in folder.`, icon: iconPath });
-                notif.on('click', () => {
-                    shell.showItemInFolder(outputFile);
-                });
-                notif.show();
-            } else {
-                console.error(`Extract failed with code ${code}. stderr: ${stderrOutput}`);
-                new Notification({ title: 'ShadowWarp', body: `Failed to save replay. Code: ${code}`, icon: iconPath }).show();
+function notifyEncoderFallback(fallback: EncoderFallback) {
+    console.warn(`Encoder ${fallback.from} unavailable (${fallback.reason}), using ${fallback.to}`);
+    new Notification({
+        title: 'ShadowWarp',
+        body: `${encoderLabel(fallback.from)} isn't working, recording with ${encoderLabel(fallback.to)} instead.`,
+        icon: iconPath
+    }).show();
+    if (mainWindow && !mainWindow.isDestroyed()) mainWindow.webContents.send('encoder-fallback', fallback);
+}
+
+function getOutputFolder() {
+    return config.outputFolder || app.getPath('videos');
+}
+
+function notifyCameraLost(camera: string) {
+    new Notification({ title: 'ShadowWarp', body: `Camera "${camera}" stopped working. Recording continues without the overlay.`, icon: iconPath }).show();
+}
+
+// Lets the clip library pick up new files without polling
+function notifyClipSaved(file: string) {
+    const folder = getOutputFolder();
+    lastClipPath = file;
+    registerClip(folder, file);
+    // Before telling the renderer, so its refresh also drops whatever was pruned
+    enforceRetention();
+    const name = clipName(folder, file);
+    if (mainWindow && !mainWindow.isDestroyed()) mainWindow.webContents.send('clip-saved', name);
+    controlServer.broadcast('clip-saved', { file, name });
+}
+
+// Prunes the output folder down to the retention limits; runs after every new clip and when the limits change
+function enforceRetention() {
+    const removed = applyRetention(getOutputFolder(), retentionPolicy(config));
+    if (removed.length === 0) return removed;
+    console.log(`Retention removed: ${removed.map(c => c.name).join(', ')}`);
+    new Notification({ title: 'ShadowWarp', body: `Removed ${describeRemoved(removed)} to stay within your retention limits.`, icon: iconPath, silent: true }).show();
+    controlServer.broadcast('clips-pruned', { names: removed.map(c => c.name) });
+    return removed;
+}
+
+// Token values for the filename templates; the counter is only consumed for real saves
+function clipNameContext(kind: string, date: Date, details: { duration?: number, marker?: string }, take: boolean): ClipNameContext {
+    return {
+        kind,
+        date,
+        duration: details.duration ?? null,
+        preset: config.presets.find(p => p.id === config.activePreset)?.name || '',
+        app: config.captureSource.kind === 'window' ? config.captureSource.title : 'Desktop',
+        counter: clipCounter(counterPath, getOutputFolder(), take),
+        marker: details.marker || ''
+    };
+}
+
+// Full path for a new clip from the filename templates, numbered if taken, including by a
+// queued save. Creates its folder.
+function newClipPath(kind: string, date: Date, details: { duration?: number, marker?: string } = {}) {
+    const folder = getOutputFolder();
+    ensureDir(folder);
+    const relative = renderClipPath(config.clipFolderTemplate, config.clipNameTemplate, clipNameContext(kind, date, details, true));
+    const file = uniqueClipPath(folder, relative, saveQueue.reservedFiles());
+    ensureDir(path.dirname(file));
+    return file;
+}
+
+// Dumps and ring segments a previous run left behind. Only safe at launch, before any save
+// reads from them; a crashed session's ring has been moved to recoveredDir by then.
+function cleanTempDir() {
+    try {
+        for (const file of fs.readdirSync(tempDir)) {
+            if (file.endsWith('.ts')) fs.unlinkSync(path.join(tempDir, file));
+        }
+        fs.rmSync(ringDir, { recursive: true, force: true });
+    } catch (e) { /* ignore */ }
+}
+
+// A ring index left behind means the previous session never shut down cleanly.
+// Move it aside before the ring is reused so it can be recovered.
+function detectCrashedBuffer() {
+    if (readSegmentIndex(ringDir).length === 0) return;
+    try {
+        fs.rmSync(recoveredDir, { recursive: true, force: true });
+        fs.renameSync(ringDir, recoveredDir);
+    } catch (e) {
+        console.error('Failed to preserve crashed buffer:', e);
+        return;
+    }
+    hasRecoveredBuffer = true;
+    const notif = new Notification({ title: 'ShadowWarp', body: `ShadowWarp didn't shut down cleanly.\nClick to recover the last replay buffer.`, icon: iconPath });
+    notif.on('click', () => recoverBuffer());
+    notif.show();
+}
+
+function recoverBuffer() {
+    const segments = readSegmentIndex(recoveredDir);
+    if (segments.length === 0) {
+        hasRecoveredBuffer = false;
+        updateTrayMenu();
+        return;
+    }
+
+    const outputFile = newClipPath('Recovered', new Date(segments[segments.length - 1].start));
+
+    // Segments are one continuous TS stream, so they can be fed straight through stdin
+    let stderrOutput = '';
+    const recoverProcess = spawn(ffmpeg, [
+        '-y',
+        '-f', 'mpegts',
+        '-i', 'pipe:0',
+        '-map', '0',
+        '-c', 'copy',
+        '-movflags', '+faststart',
+        outputFile
+    ], { windowsHide: true });
+
+    recoverProcess.stderr?.on('data', (d: Buffer) => {
+        stderrOutput += d.toString();
+    });
+    recoverProcess.stdin?.on('error', () => { /* FFmpeg exited early, reported below */ });
+    readSegments(recoveredDir, segments).pipe(recoverProcess.stdin);
+
+    recoverProcess.on('error', (err) => {
+        new Notification({ title: 'ShadowWarp', body: `Failed to recover buffer: ${err.message}`, icon: iconPath }).show();
+    });
+
+    recoverProcess.on('exit', (code) => {
+        if (code === 0) {
+            fs.rmSync(recoveredDir, { recursive: true, force: true });
+            hasRecoveredBuffer = false;
+            updateTrayMenu();
+            notifyClipSaved(outputFile);
+            const notif = new Notification({ title: 'ShadowWarp', body: `Recovered buffer saved!\nClick to view in folder.`, icon: iconPath });
+            notif.on('click', () => {
+                shell.showItemInFolder(outputFile);
+            });
+            notif.show();
+        } else {
+            console.error(`Recovery failed with code ${code}. stderr: ${stderrOutput}`);
+            new Notification({ title: 'ShadowWarp', body: `Failed to recover buffer. Code: ${code}`, icon: iconPath }).show();
+        }
+    });
+}
+
+function runHotkey(binding: HotkeyBinding) {
+    switch (binding.action) {
+        case 'save-replay':
+            saveReplay(binding.seconds);
+            break;
+        case 'switch-preset':
+            activatePreset(binding.preset);
+            break;
+        case 'mark':
+            markMoment(binding.label || '');
+            break;
+        case 'toggle-session':
+            if (sessionWriter) stopSession();
+            else startSession();
+            break;
+        case 'push-to-talk':
+            // Another push-to-talk binding may be holding it open already
+            if (!pushToTalkHeld) {
+                pushToTalkHeld = true;
+                updateAudioGates();
             }
+            break;
+        case 'toggle-mic':
+            toggleMicMute();
+            break;
+    }
+}
+
+// Push-to-talk ends when its key is let go
+function releaseHotkey(binding: HotkeyBinding) {
+    if (binding.action === 'push-to-talk' && pushToTalkHeld) {
+        pushToTalkHeld = false;
+        updateAudioGates();
+    }
+}
+
+function hasPushToTalk() {
+    return config.hotkeys.some(b => b.action === 'push-to-talk' && b.keys);
+}
+
+function micState(): MicState {
+    if (config.audioDevice === 'None') return 'off';
+    if (config.micMuted) return 'muted';
+    if (hasPushToTalk()) return pushToTalkHeld ? 'talking' : 'push-to-talk';
+    return 'live';
+}
+
+function audioGates(): Record<AudioSourceId, boolean> {
+    const mic = micState();
+    return { system: !config.systemMuted, microphone: mic === 'live' || mic === 'talking' };
+}
+
+// Tells FFmpeg about gates that changed (or all of them with `resend`), so mutes and
+// push-to-talk apply without restarting it, and shows the microphone's state
+function updateAudioGates(resend = false) {
+    const gates = audioGates();
+    const stdin = recordProcess?.stdin;
+    if (stdin?.writable) {
+        for (const id of recordingAudioSources) {
+            if (resend || gates[id] !== appliedAudioGates[id]) stdin.write(gateCommand(id, gates[id]));
+        }
+    }
+    appliedAudioGates = gates;
+
+    const state = micState();
+    if (state === lastMicState) return;
+    lastMicState = state;
+    updateTrayTooltip();
+    if (mainWindow && !mainWindow.isDestroyed()) mainWindow.webContents.send('mic-state', state);
+    controlServer.broadcast('mic-state', { state });
+}
+
+// Saved in the config, so the microphone stays muted in clips across restarts
+function toggleMicMute() {
+    if (config.audioDevice === 'None') return;
+    applyConfig({ micMuted: !config.micMuted });
+    if (mainWindow && !mainWindow.isDestroyed()) mainWindow.webContents.send('config-changed', config);
+    new Notification({ title: 'ShadowWarp', body: config.micMuted ? 'Microphone muted in clips' : 'Microphone unmuted', icon: iconPath, silent: true }).show();
+}
+
+function updateTrayTooltip() {
+    if (!tray) return;
+    const status = recorderStatus.state === 'failed' ? 'ShadowWarp - Recording failed'
+        : recorderStatus.state === 'restarting' ? 'ShadowWarp - Restarting recorder...'
+        : 'ShadowWarp Background Recorder';
+    const mic = micState();
+    tray.setToolTip(mic === 'off' ? status : `${status}\n${MIC_STATE_LABELS[mic]}`);
+}
+
+// Bookmarks the newest buffered frame; it becomes a chapter in any clip saved around it
+function markMoment(label: string) {
+    if (recorderStatus.state === 'idle' || replayBuffer.totalBytes === 0) {
+        console.log('Not marking: nothing is being buffered');
+        return;
+    }
+    const time = Date.now();
+    bookmarks.add({ offset: replayBuffer.endOffset, pts: tsIndex.lastPts, time, label });
+    console.log(`Marked ${label ? `"${label}" ` : ''}at byte ${replayBuffer.endOffset}`);
+    controlServer.broadcast('bookmark-added', { label, time });
+    new Notification({ title: 'ShadowWarp', body: label ? `Marked: ${label}` : 'Moment marked', icon: iconPath, silent: true }).show();
+}
+
+// Validates and applies a config change from any source. Capture settings are kept in step
+// with the active preset: switching presets loads its settings, editing them updates it.
+function applyConfig(changes: Partial<Config>): SaveConfigResult {
+    // Nothing is applied unless the whole merged config is valid
+    const { config: validated, errors } = validateConfig({ ...config, ...changes, version: CONFIG_VERSION });
+    if (Object.keys(errors).length > 0) return { ok: false, errors };
+
+    const oldConfig = config;
+    const active = validated.presets.find(p => p.id === validated.activePreset);
+    config = validated.activePreset !== oldConfig.activePreset
+        ? { ...validated, ...presetSettings(active) }
+        : { ...validated, presets: validated.presets.map(p => p === active ? { ...p, ...presetSettings(validated) } : p) };
+
+    if (config.controlApiEnabled && !config.controlApiToken) config.controlApiToken = newControlToken();
+    if (config.controlApiEnabled !== oldConfig.controlApiEnabled || config.controlApiPort !== oldConfig.controlApiPort
+        || config.controlApiToken !== oldConfig.controlApiToken) {
+        updateControlServer();
+    }
+
+    if (config.autoStart !== oldConfig.autoStart) {
+        app.setLoginItemSettings({
+            openAtLogin: config.autoStart,
+            path: app.getPath('exe'),
+            args: ['--hidden']
         });
-    });
+    }
+
+    // Restart background recording if the capture or audio setup changed. The audio mixer and
+    // webcam overlay only change filters, so FFmpeg is swapped out and the buffer carries over.
+    const captureChanged = PRESET_FIELDS.some(key => config[key] !== oldConfig[key])
+        || JSON.stringify(config.captureSource) !== JSON.stringify(oldConfig.captureSource)
+        || config.audioDevice !== oldConfig.audioDevice || config.systemAudioDevice !== oldConfig.systemAudioDevice;
+    const filtersChanged = MIXER_FIELDS.some(key => config[key] !== oldConfig[key])
+        || WEBCAM_FIELDS.some(key => config[key] !== oldConfig[key]);
+    // Picking a camera again gives it another try
+    if (config.webcamDevice !== oldConfig.webcamDevice) failedCamera = null;
+    if (captureChanged && isRecording) restartRecording();
+    else if (filtersChanged && isRecording) respawnRecorder();
+    // Recompiled only when they changed, so saving other settings doesn't cut off a held push-to-talk
+    if (JSON.stringify(config.hotkeys) !== JSON.stringify(oldConfig.hotkeys)) hotkeys.update(config.hotkeys);
+    // Mutes, push-to-talk bindings and the microphone itself all decide whether its gate is open
+    updateAudioGates();
+
+    if (config.retentionMaxSize !== oldConfig.retentionMaxSize || config.retentionMaxAge !== oldConfig.retentionMaxAge
+        || config.retentionKeepNewest !== oldConfig.retentionKeepNewest || config.outputFolder !== oldConfig.outputFolder) {
+        enforceRetention();
+    }
+
+    saveConfigToDisk();
+    updateTrayMenu();
+    return { ok: true, config };
+}
+
+// Runs a command forwarded by `shadowarp --<command>` launched while we're running
+function runCliCommand(command: CliCommand): Promise<CliResponse> {
+    const ok = (message: string) => Promise.resolve({ code: EXIT_OK, message });
+    const failed = (message: string) => Promise.resolve({ code: EXIT_FAILED, message });
+    switch (command.name) {
+        case 'status':
+            return ok(JSON.stringify(appStatus(), null, 2));
+        case 'start':
+            if (recorderStatus.state === 'recording') return ok('Already recording');
+            startRecordingManually();
+            return ok('Starting recording');
+        case 'stop':
+            if (recorderStatus.state === 'idle') return ok('Recording is not running');
+            stopRecording();
+            return ok('Recording stopped');
+        case 'preset': {
+            const preset = findPreset(command.preset);
+            if (!preset) return failed(`No preset named "${command.preset}". Available: ${config.presets.map(p => p.name).join(', ')}`);
+            if (preset.id === config.activePreset) return ok(`Already using preset "${preset.name}"`);
+            activatePreset(preset.id);
+            return ok(`Switched to preset "${preset.name}"`);
+        }
+        case 'save-replay':
+            // Replies once the clip is written, so scripts can use the file right away
+            return new Promise((resolve) => saveReplay(command.seconds, (file, error) => {
+                resolve(file ? { code: EXIT_OK, message: file } : { code: EXIT_FAILED, message: `Replay not saved: ${error}` });
+            }));
+    }
+}
+
+// By name (case-insensitive) as typed on a command line, or by id
+function findPreset(nameOrId: string) {
+    const wanted = nameOrId.trim().toLowerCase();
+    return config.presets.find(p => p.name.toLowerCase() === wanted) || config.presets.find(p => p.id === nameOrId);
+}
 
-    writeNext();
+// Preset switches from the tray or a hotkey; the renderer isn't the source, so it's told
+function activatePreset(id: string) {
+    const preset = config.presets.find(p => p.id === id);
+    if (!preset || id === config.activePreset) return;
+    applyConfig({ activePreset: id });
+    if (mainWindow && !mainWindow.isDestroyed()) mainWindow.webContents.send('config-changed', config);
+    controlServer.broadcast('preset-changed', { id, name: preset.name });
+    new Notification({ title: 'ShadowWarp', body: `Switched to preset "${preset.name}"`, icon: iconPath }).show();
 }
 
 function createWindow() {
@@ -407,8 +1228,10 @@ function createWindow() {
     // This bypasses the screen share picker dialog
     mainWindow.webContents.session.setDisplayMediaRequestHandler((_request, callback) => {
         desktopCapturer.getSources({ types: ['screen'] }).then((sources) => {
-            // Grant access to the first screen source with audio
-            callback({ video: sources[0], audio: 'loopback' });
+            // Grant access to the captured monitor's source with audio (loopback audio is system-wide either way)
+            const source = config.captureSource;
+            const display = source.kind === 'window' ? null : screen.getAllDisplays()[source.monitor];
+            callback({ video: sources.find(s => display && s.display_id === String(display.id)) || sources[0], audio: 'loopback' });
         });
     });
 
@@ -428,18 +1251,52 @@ function createTray() {
     let icon = nativeImage.createFromPath(iconPath);
     // As a fallback to prevent crash if nativeImage is empty on some systems, we pass the icon instance directly.
     tray = new Tray(icon);
+    updateTrayMenu();
+    updateTrayTooltip();
+
+    tray.on('click', () => showMainWindow());
+}
+
+// Undoes the invisible-but-shown state the window is kept in while in the background
+function showMainWindow() {
+    mainWindow?.setOpacity(1);
+    mainWindow?.setSkipTaskbar(false);
+    mainWindow?.setIgnoreMouseEvents(false);
+    mainWindow?.show();
+    mainWindow?.focus();
+}
+
+function updateTrayMenu() {
+    if (!tray) return;
 
     const contextMenu = Menu.buildFromTemplate([
+        { label: 'Show App', click: () => showMainWindow() },
         {
-            label: 'Show App', click: () => {
-                mainWindow?.setOpacity(1);
-                mainWindow?.setSkipTaskbar(false);
-                mainWindow?.setIgnoreMouseEvents(false);
-                mainWindow?.show();
-                mainWindow?.focus();
-            }
+            label: 'Save Instant Replay',
+            submenu: REPLAY_DURATIONS.map(d => ({ label: d.label, click: () => saveReplay(d.seconds) }))
+        },
+        {
+            label: sessionWriter ? 'Stop Session Recording' : 'Start Session Recording',
+            enabled: sessionWriter !== null || recorderStatus.state === 'recording',
+            click: () => sessionWriter ? stopSession() : startSession()
+        },
+        {
+            label: 'Capture Preset',
+            submenu: config.presets.map(p => ({
+                label: p.name,
+                type: 'radio' as const,
+                checked: p.id === config.activePreset,
+                click: () => activatePreset(p.id)
+            }))
+        },
+        {
+            label: 'Mute Microphone in Clips',
+            type: 'checkbox' as const,
+            checked: config.micMuted,
+            enabled: config.audioDevice !== 'None',
+            click: () => toggleMicMute()
         },
-        { label: 'Save Instant Replay', click: () => saveReplay() },
+        ...(hasRecoveredBuffer ? [{ label: 'Recover Last Buffer', click: () => recoverBuffer() }] : []),
         { type: 'separator' },
         {
             label: 'Quit ShadowWarp', click: () => {
@@ -448,45 +1305,48 @@ function createTray() {
             }
         }
     ]);
-    tray.setToolTip('ShadowWarp Background Recorder');
     tray.setContextMenu(contextMenu);
-
-    tray.on('click', () => {
-        mainWindow?.setOpacity(1);
-        mainWindow?.setSkipTaskbar(false);
-        mainWindow?.setIgnoreMouseEvents(false);
-        mainWindow?.show();
-        mainWindow?.focus();
-    });
 }
 
+// A plain second launch brings the running window forward; launches with a command
+// are answered over the CLI socket instead
+app.on('second-instance', (_e, argv) => {
+    if (!parseCliArgs(argv)) showMainWindow();
+});
+
 app.whenReady().then(() => {
+    // Forwarding a command to the running instance: nothing else to set up
+    if (!isPrimaryInstance) return;
+    serveCli(cliSocket, runCliCommand);
+    protocol.handle('clip', (request) => serveClip(getOutputFolder(), request));
+    detectCrashedBuffer();
+    cleanTempDir();
+    // Test encodes take a few seconds, so start them before anything waits on the result
+    probeEncoders();
+    if (config.controlApiEnabled) {
+        if (!config.controlApiToken) {
+            config.controlApiToken = newControlToken();
+            saveConfigToDisk();
+        }
+        updateControlServer();
+    }
     createWindow();
 
     // We need an empty or dummy icon to avoid crashing if favicon not built yet. We fallback to NativeImage later if needed.
     try { createTray(); } catch (e) { console.error("Tray fail (likely missing icon):", e); }
 
-    uIOhook.on('keydown', (e) => {
-        if (!config.shortcut) return;
-
-        const parts = config.shortcut.split('+');
-        const mainKeyStr = parts[parts.length - 1];
-
-        const needsCtrl = parts.includes('CommandOrControl') || parts.includes('Ctrl');
-        const needsAlt = parts.includes('Alt');
-        const needsShift = parts.includes('Shift');
-        const needsMeta = parts.includes('Super') || parts.includes('Meta');
+    for (const notice of configNotices) {
+        new Notification({ title: 'ShadowWarp', body: notice, icon: iconPath }).show();
+    }
 
-        if (e.ctrlKey !== needsCtrl) return;
-        if (e.altKey !== needsAlt) return;
-        if (e.shiftKey !== needsShift) return;
-        if (e.metaKey !== needsMeta) return;
+    // The age limit needs a pass even when no clip has been saved for a while
+    enforceRetention();
 
-        const targetKeycode = UiohookKey[mainKeyStr as keyof typeof UiohookKey];
-        if (targetKeycode !== undefined && e.keycode === targetKeycode) {
-            saveReplay();
-        }
-    });
+    hotkeys.update(config.hotkeys);
+    uIOhook.on('keydown', (e) => hotkeys.keydown(e));
+    uIOhook.on('keyup', (e) => hotkeys.keyup(e));
+    uIOhook.on('mousedown', (e) => hotkeys.mousedown(e));
+    uIOhook.on('mouseup', (e) => hotkeys.mouseup(e));
     uIOhook.start();
 
     app.on('activate', function () {
@@ -499,7 +1359,13 @@ app.whenReady().then(() => {
         args: ['--hidden']
     });
 
-    if (config.autoRecord) {
+    // Launched by `--preset`/`--start` while no instance was running: apply it to this launch
+    if (launchCommand?.name === 'preset') {
+        const preset = findPreset(launchCommand.preset);
+        if (preset) applyConfig({ activePreset: preset.id });
+        else console.error(`No preset named "${launchCommand.preset}"`);
+    }
+    if (config.autoRecord || launchCommand?.name === 'start') {
         startRecording();
     }
 });
@@ -512,57 +1378,78 @@ app.on('window-all-closed', () => {
 
 app.on('will-quit', () => {
     uIOhook.stop();
+    // Not a crash: keep the supervisor from restarting the recorder we're about to kill
+    supervisor.reset();
+    // Closes the current part; it stays a .ts as there's no time left to remux it
+    stopSession();
+    saveQueue.cancelAll();
+    exportQueue.cancelAll();
+    isRecording = false;
     if (recordProcess) recordProcess.kill();
+    controlServer.stop();
+    // A clean exit removes the ring, so only a crash leaves one behind for recovery
+    replayBuffer.clear();
     if (tray) tray.destroy();
 });
 
 ipcMain.handle('get-config', () => config);
-ipcMain.handle('save-config', (e, newConfig) => {
-    const oldShortcut = config.shortcut;
-    const oldAutoStart = config.autoStart;
-    Object.assign(config, newConfig);
-
-    if (config.autoStart !== oldAutoStart) {
-        app.setLoginItemSettings({
-            openAtLogin: config.autoStart,
-            path: app.getPath('exe'),
-            args: ['--hidden']
-        });
-    }
-
-    // Restart background recording if audio setup changed.
-    if ((config.audioDevice !== newConfig.audioDevice || config.systemAudioDevice !== newConfig.systemAudioDevice) && isRecording) {
-        stopRecording();
-        setTimeout(() => startRecording(), 3000);
-    }
-
-    saveConfigToDisk();
+ipcMain.handle('save-config', (_e, newConfig: Partial<Config>) => applyConfig(newConfig));
+ipcMain.handle('export-preset', async (_e, id: string) => {
+    const preset = config.presets.find(p => p.id === id);
+    if (!mainWindow || !preset) return false;
+    const result = await dialog.showSaveDialog(mainWindow, {
+        defaultPath: `${preset.name.replace(/[<>:"/\\|?*]/g, '_')}.json`,
+        filters: [{ name: 'ShadowWarp Preset', extensions: ['json'] }]
+    });
+    if (result.canceled || !result.filePath) return false;
+    exportPreset(result.filePath, preset);
+    return true;
+});
+ipcMain.handle('import-preset', async () => {
+    if (!mainWindow) return null;
+    const result = await dialog.showOpenDialog(mainWindow, {
+        properties: ['openFile'],
+        filters: [{ name: 'ShadowWarp Preset', extensions: ['json'] }]
+    });
+    if (result.canceled) return null;
+    const preset = importPreset(result.filePaths[0], config.presets);
+    return applyConfig({ presets: [...config.presets, preset] });
 });
 
 ipcMain.on('system-audio-data', (_e, buffer: Buffer) => {
-    if (!recordProcess || !isRecording || !useSystemAudio || !recordProcess.stdin || recordProcess.stdin.destroyed || !recordProcess.stdin.writable) return;
-    try {
-        recordProcess.stdin.write(buffer);
-    } catch (e) {
-        console.warn('Audio write error (FFmpeg may have exited):', (e as Error).message);
-    }
+    if (!isRecording || !useSystemAudio || !systemAudioSocket) return;
+    systemAudioSocket.write(buffer);
 });
 
-ipcMain.handle('get-audio-devices', () => {
-    return new Promise((resolve) => {
-        const proc = spawn(ffmpeg, ['-list_devices', 'true', '-f', 'dshow', '-i', 'dummy'], { windowsHide: true });
-        let output = '';
-        proc.stderr.on('data', d => output += d.toString());
-        proc.on('close', () => {
-            const matches = [...output.matchAll(/\]\s+"([^"]+)"\s+\(audio\)/g)];
-            resolve(['None', ...matches.map(m => m[1])]);
-        });
-    });
+ipcMain.handle('get-capture-sources', () => listCaptureSources());
+ipcMain.handle('get-audio-devices', async () => {
+    const devices = await getCaptureBackend(config.captureBackend).listAudioDevices();
+    return ['None', ...devices];
 });
 
-ipcMain.handle('start-recording', startRecording);
+ipcMain.handle('get-cameras', () => getCaptureBackend(config.captureBackend).listCameras().catch((): CameraInfo[] => []));
+ipcMain.handle('get-encoders', () => probeEncoders());
+ipcMain.handle('get-encoder-fallback', () => activeFallback);
+ipcMain.handle('get-recorder-status', () => recorderStatus);
+ipcMain.handle('start-session', () => startSession());
+ipcMain.handle('stop-session', () => stopSession());
+ipcMain.handle('get-session-status', () => sessionStatus());
+ipcMain.handle('get-mic-state', () => micState());
+ipcMain.handle('start-recording', startRecordingManually);
 ipcMain.handle('stop-recording', stopRecording);
-ipcMain.handle('save-replay', saveReplay);
+ipcMain.handle('save-replay', (_e, seconds?: number) => saveReplay(seconds));
+ipcMain.handle('get-save-jobs', () => saveQueue.jobs);
+ipcMain.handle('cancel-save', (_e, id: string) => saveQueue.cancel(id));
+ipcMain.handle('clear-saves', () => saveQueue.clearFinished());
+ipcMain.handle('show-save', (_e, id: string) => {
+    const job = saveQueue.find(id);
+    if (job?.state === 'done') shell.showItemInFolder(job.output);
+});
+// What the next replay would be called with these templates, for the settings preview
+ipcMain.handle('preview-clip-path', (_e, folderTemplate: string, nameTemplate: string) => {
+    const relative = renderClipPath(String(folderTemplate), String(nameTemplate), clipNameContext('Replay', new Date(), { duration: config.bufferTime, marker: 'Mark 1' }, false));
+    return path.join(getOutputFolder(), ...relative.split('/')) + '.mp4';
+});
 ipcMain.handle('select-folder', async () => {
     if (!mainWindow) return null;
     const result = await dialog.showOpenDialog(mainWindow, { properties: ['openDirectory'] });
@@ -570,6 +1457,35 @@ ipcMain.handle('select-folder', async () => {
     return null;
 });
 
+ipcMain.handle('list-clips', () => listClips(getOutputFolder()));
+ipcMain.handle('probe-clip', (_e, name: string) => probeClip(resolveClip(getOutputFolder(), name)));
+ipcMain.handle('get-clip-thumbnail', (_e, name: string) => getThumbnail(resolveClip(getOutputFolder(), name), thumbnailDir));
+ipcMain.handle('play-clip', (_e, name: string) => shell.openPath(resolveClip(getOutputFolder(), name)));
+ipcMain.handle('show-clip-in-folder', (_e, name: string) => shell.showItemInFolder(resolveClip(getOutputFolder(), name)));
+ipcMain.handle('rename-clip', (_e, name: string, title: string) => renameClip(getOutputFolder(), name, title));
+ipcMain.handle('star-clip', (_e, name: string, starred: boolean) => starClip(getOutputFolder(), name, starred === true));
+ipcMain.handle('trim-clip', async (_e, name: string, opts: TrimOptions) => {
+    ensureDir(tempDir);
+    const newName = await trimClip(getOutputFolder(), name, opts, tempDir);
+    notifyClipSaved(path.join(getOutputFolder(), newName));
+    return newName;
+});
+ipcMain.handle('export-clip', (_e, name: string, presetId: string) => exportClip(resolveClip(getOutputFolder(), name), presetId));
+ipcMain.handle('get-export-jobs', () => exportQueue.jobs);
+ipcMain.handle('cancel-export', (_e, id: string) => exportQueue.cancel(id));
+ipcMain.handle('clear-exports', () => exportQueue.clearFinished());
+ipcMain.handle('show-export', (_e, id: string) => {
+    const job = exportQueue.find(id);
+    if (job?.output) shell.showItemInFolder(job.output);
+});
+// Goes to the recycle bin rather than being unlinked, in case of a misclick
+ipcMain.handle('delete-clip', async (_e, name: string) => {
+    const file = resolveClip(getOutputFolder(), name);
+    await shell.trashItem(file);
+    if (fs.existsSync(bookmarkSidecarPath(file))) await shell.trashItem(bookmarkSidecarPath(file));
+    forgetClip(getOutputFolder(), name);
+});
+
 ipcMain.handle('window-control', (e, action) => {
     const win = BrowserWindow.fromWebContents(e.sender);
     if (!win) return;
@@ -0,0 +1,68 @@
+// Per-source gain and microphone processing for the recorder's audio filter graph, and the
+// level meters that ride along in it. Meter readings come back through FFmpeg's log.
+// Mutes are gates FFmpeg opens and closes while it runs, from commands written to its stdin.
+
+import { MixerSettings } from '../shared/config';
+import { AudioLevels, AudioSourceId, SILENCE_DB } from '../shared/audio';
+
+// Filters applied to one source before it's mixed or written as its own track, ending in its gate
+export function sourceFilters(id: AudioSourceId, mixer: MixerSettings, open: boolean): string[] {
+    const filters: string[] = [];
+    if (id === 'microphone') {
+        // Rumble and desk thumps, below the voice range
+        if (mixer.micHighPass) filters.push('highpass=f=80');
+        // Steady background noise: fans, hum, hiss
+        if (mixer.micNoiseSuppression) filters.push('afftdn=nf=-40');
+        // Closes below about -36 dBFS, so keyboard clatter and breathing between words drop out
+        if (mixer.micNoiseGate) filters.push('agate=threshold=0.015:ratio=10:attack=5:release=250');
+        // 4:1 above -18 dBFS with 6 dB of makeup gain, so shouting and mumbling end up closer together
+        if (mixer.micCompressor) filters.push('acompressor=threshold=0.125:ratio=4:attack=5:release=100:makeup=2');
+    }
+    const volume = id === 'system' ? mixer.systemVolume : mixer.micVolume;
+    if (volume !== 100) filters.push(`volume=${(volume / 100).toFixed(2)}`);
+    filters.push(`volume@${id}_gate=volume=${open ? 1 : 0}`);
+    return filters;
+}
+
+// Opens or closes a source's gate through FFmpeg's interactive command prompt ("c", then
+// "<target> <time> <command> <argument>"); a time of -1 applies it right away. FFmpeg ignores the
+// prompt when any input is a `pipe:`, so none of the recorder's may be.
+export function gateCommand(id: AudioSourceId, open: boolean) {
+    return `cvolume@${id}_gate -1 volume ${open ? 1 : 0}\n`;
+}
+
+const METER_KEY = 'lavfi.astats.Overall.Peak_level';
+
+// Sink for a copy of the source: 4800-sample blocks (ten a second at 48 kHz) whose peak is
+// logged by an ametadata instance named after the source, e.g. "ametadata@meter_system"
+export function meterFilter(id: AudioSourceId) {
+    return [
+        'asetnsamples=n=4800:p=0',
+        'astats=metadata=1:reset=1:measure_perchannel=none:measure_overall=Peak_level',
+        `ametadata@meter_${id}=mode=print:key=${METER_KEY}`,
+        'anullsink'
+    ].join(',');
+}
+
+const METER_LINE = /@meter_(system|microphone) @ [^\]]*\]\s*lavfi\.astats\.Overall\.Peak_level=(\S+)/;
+
+// FFmpeg's replies to gate commands
+const COMMAND_ECHO = /^(Enter command: |Command reply for stream )/;
+
+// Splits meter readings out of a chunk of FFmpeg log text. Every line the meters and gate
+// commands print is removed, so they don't crowd real errors out of the log tail.
+export function extractLevels(text: string): { levels: AudioLevels | null, rest: string } {
+    let levels: AudioLevels | null = null;
+    const rest = text.split('\n').filter(line => {
+        if (COMMAND_ECHO.test(line)) return false;
+        if (!line.includes('@meter_')) return true;
+        const match = METER_LINE.exec(line);
+        if (match) {
+            // Silence is logged as -inf
+            const db = parseFloat(match[2]);
+            levels = { ...levels, [match[1]]: Number.isFinite(db) ? Math.max(SILENCE_DB, db) : SILENCE_DB };
+        }
+        return false;
+    });
+    return { levels, rest: rest.join('\n') };
+}
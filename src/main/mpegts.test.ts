@@ -0,0 +1,158 @@
+import { describe, it, expect } from 'vitest';
+import { createTsIndexer, PTS_HZ } from './mpegts';
+
+const PMT_PID = 0x1000;
+const VIDEO_PID = 0x100;
+
+function packet(pid: number, pusi: boolean, payload: number[], randomAccess = false) {
+    const p = Buffer.alloc(188, 0xff);
+    p[0] = 0x47;
+    p[1] = (pusi ? 0x40 : 0) | (pid >> 8);
+    p[2] = pid & 0xff;
+    let i = 4;
+    if (randomAccess) {
+        p[3] = 0x30;
+        p[4] = 1;
+        p[5] = 0x40;
+        i = 6;
+    } else {
+        p[3] = 0x10;
+    }
+    Buffer.from(payload).copy(p, i);
+    return p;
+}
+
+function pat() {
+    // pointer, table 0, section_length 13, tsid, version, section numbers, program 1 -> PMT PID, CRC
+    return packet(0, true, [0, 0x00, 0xb0, 13, 0, 1, 0xc1, 0, 0, 0, 1, 0xe0 | (PMT_PID >> 8), PMT_PID & 0xff, 0, 0, 0, 0]);
+}
+
+function pmt(streamType = 0x1b) {
+    // pointer, table 2, section_length 18, program, version, section numbers, PCR PID, no program info,
+    // one stream, CRC
+    return packet(PMT_PID, true, [
+        0, 0x02, 0xb0, 18, 0, 1, 0xc1, 0, 0, 0xe0 | (VIDEO_PID >> 8), VIDEO_PID & 0xff, 0xf0, 0,
+        streamType, 0xe0 | (VIDEO_PID >> 8), VIDEO_PID & 0xff, 0xf0, 0,
+        0, 0, 0, 0
+    ]);
+}
+
+function encodePts(pts: number) {
+    const high = Math.floor(pts / 2 ** 30) & 0x07;
+    const low = pts % 2 ** 30;
+    return [0x21 | (high << 1), (low >> 22) & 0xff, (((low >> 15) & 0x7f) << 1) | 1, (low >> 7) & 0xff, ((low & 0x7f) << 1) | 1];
+}
+
+// A video PES start carrying one NAL unit with the given header byte
+function video(pts: number, nalHeader: number, randomAccess = false) {
+    return packet(VIDEO_PID, true, [0, 0, 1, 0xe0, 0, 0, 0x80, 0x80, 5, ...encodePts(pts), 0, 0, 0, 1, nalHeader], randomAccess);
+}
+
+const IDR = 0x65;
+const NON_IDR = 0x41;
+
+// PAT + PMT + a frame, one group per second of video
+function stream(frames: { pts: number, nal: number }[]) {
+    return Buffer.concat(frames.flatMap(f => [pat(), pmt(), video(f.pts, f.nal)]));
+}
+
+describe('createTsIndexer', () => {
+    it('records keyframes at the PAT that precedes them', () => {
+        const index = createTsIndexer();
+        index.push(stream([
+            { pts: 0, nal: IDR },
+            { pts: PTS_HZ, nal: NON_IDR },
+            { pts: 2 * PTS_HZ, nal: IDR }
+        ]), 1000);
+
+        expect(index.keyframes).toEqual([
+            { offset: 0, pts: 0, time: 1000 },
+            { offset: 6 * 188, pts: 2 * PTS_HZ, time: 1000 }
+        ]);
+        expect(index.lastPts).toBe(2 * PTS_HZ);
+    });
+
+    it('treats the random access indicator as a keyframe', () => {
+        const index = createTsIndexer();
+        index.push(Buffer.concat([pat(), pmt(), video(PTS_HZ, NON_IDR, true)]), 0);
+        expect(index.keyframes.map(k => k.pts)).toEqual([PTS_HZ]);
+    });
+
+    it('recognises HEVC IRAP pictures', () => {
+        const index = createTsIndexer();
+        // IDR_W_RADL (19) and TRAIL_R (1)
+        index.push(Buffer.concat([pat(), pmt(0x24), video(0, 19 << 1), pat(), pmt(0x24), video(PTS_HZ, 1 << 1)]), 0);
+        expect(index.keyframes.map(k => k.pts)).toEqual([0]);
+    });
+
+    it('ignores video before the PMT names the video PID', () => {
+        const index = createTsIndexer();
+        index.push(Buffer.concat([video(0, IDR), pat(), pmt(), video(PTS_HZ, IDR)]), 0);
+        expect(index.keyframes.map(k => k.offset)).toEqual([188]);
+    });
+
+    it('gives the same offsets however the data is chunked', () => {
+        const data = stream([{ pts: 0, nal: IDR }, { pts: PTS_HZ, nal: IDR }, { pts: 2 * PTS_HZ, nal: IDR }]);
+        const whole = createTsIndexer();
+        whole.push(data, 0);
+
+        const split = createTsIndexer();
+        for (let i = 0; i < data.length; i += 100) split.push(data.subarray(i, i + 100), 0);
+
+        expect(split.keyframes).toEqual(whole.keyframes);
+    });
+
+    it('resyncs past stray bytes', () => {
+        const index = createTsIndexer();
+        index.push(Buffer.concat([Buffer.from([1, 2, 3]), pat(), pmt(), video(0, IDR)]), 0);
+        expect(index.keyframes.map(k => k.offset)).toEqual([3]);
+    });
+
+    it('unwraps PTS across the 33-bit rollover', () => {
+        const index = createTsIndexer();
+        const nearWrap = 2 ** 33 - PTS_HZ;
+        index.push(stream([{ pts: nearWrap, nal: IDR }, { pts: 0, nal: IDR }]), 0);
+        expect(index.keyframes.map(k => k.pts)).toEqual([nearWrap, 2 ** 33]);
+        expect(index.lastPts).toBe(2 ** 33);
+    });
+
+    it('finds the latest keyframe that still covers the requested length', () => {
+        const index = createTsIndexer();
+        expect(index.findStart(5)).toBeNull();
+
+        index.push(stream([0, 2, 4, 6, 8, 10].map(s => ({ pts: s * PTS_HZ, nal: IDR }))), 0);
+        expect(index.findStart(5)?.pts).toBe(4 * PTS_HZ);
+        expect(index.findStart(6)?.pts).toBe(4 * PTS_HZ);
+        expect(index.findStart(0)?.pts).toBe(10 * PTS_HZ);
+        // Shorter buffer than requested: the oldest keyframe
+        expect(index.findStart(60)?.pts).toBe(0);
+    });
+
+    it('forgets evicted keyframes', () => {
+        const index = createTsIndexer();
+        index.push(stream([0, 1, 2].map(s => ({ pts: s * PTS_HZ, nal: IDR }))), 0);
+        index.evict(3 * 188);
+        expect(index.keyframes.map(k => k.offset)).toEqual([3 * 188, 6 * 188]);
+        index.evict(3 * 188 + 1);
+        expect(index.keyframes.map(k => k.offset)).toEqual([6 * 188]);
+    });
+
+    it('keeps keyframes and offsets across a discontinuity', () => {
+        const index = createTsIndexer();
+        // The old process died halfway through a packet
+        index.push(Buffer.concat([stream([{ pts: 0, nal: IDR }]), pat().subarray(0, 50)]), 0);
+        index.discontinuity();
+        index.push(stream([{ pts: PTS_HZ, nal: IDR }]), 0);
+        expect(index.keyframes.map(k => k.offset)).toEqual([0, 3 * 188 + 50]);
+    });
+
+    it('starts over when cleared', () => {
+        const index = createTsIndexer();
+        index.push(stream([{ pts: PTS_HZ, nal: IDR }]), 0);
+        index.clear();
+        expect(index.keyframes).toEqual([]);
+        expect(index.lastPts).toBeNull();
+        index.push(stream([{ pts: 0, nal: IDR }]), 0);
+        expect(index.keyframes).toEqual([{ offset: 0, pts: 0, time: 0 }]);
+    });
+});
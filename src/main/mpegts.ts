@@ -0,0 +1,212 @@
+// Incremental MPEG-TS parser for the recorder's output. It follows PAT -> PMT to find the
+// video PID and records every keyframe with its byte offset and PTS, so a save can start
+// exactly on a keyframe instead of dumping the whole buffer and seeking with -sseof.
+
+const TS_PACKET = 188;
+const SYNC_BYTE = 0x47;
+const PTS_WRAP = 2 ** 33;
+export const PTS_HZ = 90000;
+
+// PMT stream_type values we can index
+const VIDEO_STREAM_TYPES: Record<number, VideoCodec> = {
+    0x1b: 'h264',
+    0x24: 'hevc'
+};
+
+type VideoCodec = 'h264' | 'hevc';
+
+export interface Keyframe {
+    // Global byte offset to cut at: the PAT/PMT preceding the keyframe when there is one
+    offset: number;
+    // Unwrapped 90 kHz presentation timestamp
+    pts: number;
+    // Wall-clock time the packet arrived
+    time: number;
+}
+
+export interface TsIndex {
+    readonly keyframes: readonly Keyframe[];
+    // Newest video PTS seen, or null before the first one
+    readonly lastPts: number | null;
+    push(chunk: Buffer, time: number): void;
+    // Forgets keyframes whose data has been evicted from the replay buffer
+    evict(startOffset: number): void;
+    // Latest keyframe that still leaves at least `seconds` of video before the newest frame.
+    // Falls back to the oldest keyframe when the buffer is shorter than requested.
+    findStart(seconds: number): Keyframe | null;
+    // A new recorder process continues appending to the same buffer: drop the old
+    // process's truncated last packet and re-read PAT/PMT, but keep every keyframe
+    discontinuity(): void;
+    clear(): void;
+}
+
+function readPts(b: Buffer, i: number) {
+    return ((b[i] >> 1) & 0x07) * 2 ** 30
+        + (b[i + 1] << 22)
+        + ((b[i + 2] >> 1) << 15)
+        + (b[i + 3] << 7)
+        + (b[i + 4] >> 1);
+}
+
+// Scans a PES payload fragment for an IDR (H.264) or IRAP (HEVC) NAL unit
+function containsKeyNal(b: Buffer, from: number, codec: VideoCodec) {
+    for (let i = from; i + 3 < b.length; i++) {
+        if (b[i] !== 0 || b[i + 1] !== 0 || b[i + 2] !== 1) continue;
+        const header = b[i + 3];
+        if (codec === 'h264' && (header & 0x1f) === 5) return true;
+        if (codec === 'hevc') {
+            const type = (header >> 1) & 0x3f;
+            if (type >= 16 && type <= 21) return true;
+        }
+    }
+    return false;
+}
+
+export function createTsIndexer(): TsIndex {
+    let pending = Buffer.alloc(0);
+    // Global offset of pending[0]
+    let pendingOffset = 0;
+
+    let pmtPid = -1;
+    let videoPid = -1;
+    let videoCodec: VideoCodec | null = null;
+    // Offset of the first PAT since the last video PES started
+    let patOffset = -1;
+
+    let keyframes: Keyframe[] = [];
+    let lastRawPts = -1;
+    let ptsWraps = 0;
+    let lastPts: number | null = null;
+
+    // PSI sections are small enough to fit in one packet for our own muxer's output
+    const sectionStart = (p: Buffer, payload: number) => payload + 1 + p[payload];
+
+    const parsePat = (p: Buffer, payload: number) => {
+        const s = sectionStart(p, payload);
+        const sectionLength = ((p[s + 1] & 0x0f) << 8) | p[s + 2];
+        const end = Math.min(s + 3 + sectionLength - 4, TS_PACKET);
+        for (let i = s + 8; i + 4 <= end; i += 4) {
+            const program = (p[i] << 8) | p[i + 1];
+            if (program !== 0) {
+                pmtPid = ((p[i + 2] & 0x1f) << 8) | p[i + 3];
+                return;
+            }
+        }
+    };
+
+    const parsePmt = (p: Buffer, payload: number) => {
+        const s = sectionStart(p, payload);
+        const sectionLength = ((p[s + 1] & 0x0f) << 8) | p[s + 2];
+        const end = Math.min(s + 3 + sectionLength - 4, TS_PACKET);
+        const programInfoLength = ((p[s + 10] & 0x0f) << 8) | p[s + 11];
+        for (let i = s + 12 + programInfoLength; i + 5 <= end;) {
+            const streamType = p[i];
+            const pid = ((p[i + 1] & 0x1f) << 8) | p[i + 2];
+            const esInfoLength = ((p[i + 3] & 0x0f) << 8) | p[i + 4];
+            if (VIDEO_STREAM_TYPES[streamType]) {
+                videoPid = pid;
+                videoCodec = VIDEO_STREAM_TYPES[streamType];
+                return;
+            }
+            i += 5 + esInfoLength;
+        }
+    };
+
+    const parsePacket = (p: Buffer, offset: number, time: number) => {
+        const pusi = (p[1] & 0x40) !== 0;
+        const pid = ((p[1] & 0x1f) << 8) | p[2];
+        const adaptation = (p[3] >> 4) & 0x03;
+        let payload = 4;
+        let randomAccess = false;
+        if (adaptation & 0x02) {
+            const afLength = p[4];
+            if (afLength > 0) randomAccess = (p[5] & 0x40) !== 0;
+            payload = 5 + afLength;
+        }
+        if (!(adaptation & 0x01) || payload >= TS_PACKET) return;
+
+        if (pid === 0) {
+            if (pusi) parsePat(p, payload);
+            if (patOffset < 0) patOffset = offset;
+            return;
+        }
+        if (pid === pmtPid) {
+            if (pusi) parsePmt(p, payload);
+            return;
+        }
+        if (pid !== videoPid || !pusi) return;
+
+        // Start of a video PES: 00 00 01 <stream_id> <len:2> <flags:2> <header_len>
+        if (p[payload] !== 0 || p[payload + 1] !== 0 || p[payload + 2] !== 1) return;
+        const ptsFlags = p[payload + 7] >> 6;
+        const headerEnd = payload + 9 + p[payload + 8];
+        const cutOffset = patOffset >= 0 ? patOffset : offset;
+        patOffset = -1;
+        if (!(ptsFlags & 0x02)) return;
+
+        const raw = readPts(p, payload + 9);
+        if (lastRawPts >= 0 && raw < lastRawPts - PTS_WRAP / 2) ptsWraps++;
+        lastRawPts = raw;
+        const pts = raw + ptsWraps * PTS_WRAP;
+        lastPts = pts;
+
+        if (randomAccess || containsKeyNal(p, headerEnd, videoCodec)) {
+            keyframes.push({ offset: cutOffset, pts, time });
+        }
+    };
+
+    return {
+        get keyframes() { return keyframes; },
+        get lastPts() { return lastPts; },
+
+        push(chunk, time) {
+            const data = pending.length ? Buffer.concat([pending, chunk]) : chunk;
+            let pos = 0;
+            while (pos + TS_PACKET <= data.length) {
+                // Resync byte by byte if the stream ever loses alignment
+                if (data[pos] !== SYNC_BYTE) { pos++; continue; }
+                parsePacket(data.subarray(pos, pos + TS_PACKET), pendingOffset + pos, time);
+                pos += TS_PACKET;
+            }
+            // Keep our own copy of the partial packet, the source buffer may be reused
+            pending = Buffer.from(data.subarray(pos));
+            pendingOffset += pos;
+        },
+
+        evict(startOffset) {
+            let removeCount = 0;
+            while (removeCount < keyframes.length && keyframes[removeCount].offset < startOffset) removeCount++;
+            if (removeCount > 0) keyframes = keyframes.slice(removeCount);
+        },
+
+        findStart(seconds) {
+            if (keyframes.length === 0 || lastPts === null) return null;
+            const target = lastPts - seconds * PTS_HZ;
+            let chosen = keyframes[0];
+            for (const k of keyframes) {
+                if (k.pts > target) break;
+                chosen = k;
+            }
+            return chosen;
+        },
+
+        discontinuity() {
+            pendingOffset += pending.length;
+            pending = Buffer.alloc(0);
+            pmtPid = videoPid = -1;
+            patOffset = -1;
+        },
+
+        clear() {
+            pending = Buffer.alloc(0);
+            pendingOffset = 0;
+            pmtPid = videoPid = -1;
+            videoCodec = null;
+            patOffset = -1;
+            keyframes = [];
+            lastRawPts = -1;
+            ptsWraps = 0;
+            lastPts = null;
+        }
+    };
+}
@@ -0,0 +1,25 @@
+import * as fs from 'fs';
+import { CapturePreset, DEFAULT_PRESET_SETTINGS, capturePreset, newPresetId, presetSettings, uniquePresetName } from '../shared/config';
+
+// Preset files carry the name and settings; ids are local to each install
+export function exportPreset(file: string, preset: CapturePreset) {
+    const { id, ...content } = preset;
+    fs.writeFileSync(file, JSON.stringify(content, null, 2));
+}
+
+// Reads and validates a preset file. The result gets a fresh id and a name that
+// doesn't clash with `existing`; unknown keys in the file are ignored and settings added
+// since the file was exported get their defaults.
+export function importPreset(file: string, existing: CapturePreset[]): CapturePreset {
+    let raw: any;
+    try {
+        raw = JSON.parse(fs.readFileSync(file, 'utf8'));
+    } catch (e) {
+        throw new Error('Not a valid preset file');
+    }
+    const { id, ...content } = raw && typeof raw === 'object' ? raw : {} as any;
+    const preset: CapturePreset = { ...DEFAULT_PRESET_SETTINGS, ...content, id: newPresetId(), name: String(content.name || 'Imported preset') };
+    const error = capturePreset(preset);
+    if (error) throw new Error(`Invalid preset: ${error}`);
+    return { id: preset.id, name: uniquePresetName(preset.name, existing), ...presetSettings(preset) };
+}
@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest';
+import { FfmpegProgress, createProgressParser, healthWarnings } from './progress';
+
+const BLOCK = [
+    'frame=600', 'fps=59.94', 'stream_0_0_q=23.0', 'bitrate=49871.2kbits/s', 'total_size=62345678',
+    'out_time_us=10000000', 'out_time_ms=10000000', 'out_time=00:00:10.000000',
+    'dup_frames=2', 'drop_frames=5', 'speed=1.01x', 'progress=continue'
+].join('\n') + '\n';
+
+function collect() {
+    const progress: FfmpegProgress[] = [];
+    let log = '';
+    const parser = createProgressParser((p) => progress.push(p), (text) => { log += text; });
+    return { parser, progress, log: () => log };
+}
+
+describe('createProgressParser', () => {
+    it('reports one progress per block', () => {
+        const { parser, progress, log } = collect();
+        parser.push(Buffer.from(BLOCK));
+        expect(progress).toEqual([{
+            frame: 600, fps: 59.94, bitrateKbps: 49871.2, dupFrames: 2, dropFrames: 5, speed: 1.01, outTime: 10
+        }]);
+        expect(log()).toBe('');
+    });
+
+    it('passes everything else through as log text', () => {
+        const { parser, progress, log } = collect();
+        parser.push(Buffer.from(`[h264_nvenc @ 0x1] No capable devices found\r\n${BLOCK}Conversion failed!\n`));
+        expect(progress).toHaveLength(1);
+        expect(log()).toBe('[h264_nvenc @ 0x1] No capable devices found\nConversion failed!\n');
+    });
+
+    it('reassembles lines split across chunks', () => {
+        const { parser, progress } = collect();
+        const data = Buffer.from(BLOCK + BLOCK.replace('frame=600', 'frame=660'));
+        for (let i = 0; i < data.length; i += 7) parser.push(data.subarray(i, i + 7));
+        expect(progress.map(p => p.frame)).toEqual([600, 660]);
+    });
+
+    it('leaves unknown values empty', () => {
+        const { parser, progress } = collect();
+        parser.push(Buffer.from('bitrate=N/A\nspeed=N/A\nout_time_us=N/A\nprogress=continue\n'));
+        expect(progress).toEqual([{ frame: 0, fps: 0, bitrateKbps: null, dupFrames: 0, dropFrames: 0, speed: null, outTime: 0 }]);
+    });
+});
+
+describe('healthWarnings', () => {
+    const healthy: FfmpegProgress = { frame: 600, fps: 60, bitrateKbps: 50000, dupFrames: 0, dropFrames: 0, speed: 1, outTime: 10 };
+
+    it('is quiet while healthy', () => {
+        expect(healthWarnings(healthy, healthy, 60)).toEqual([]);
+    });
+
+    it('flags a slow encoder and a low frame rate', () => {
+        expect(healthWarnings({ ...healthy, speed: 0.8, fps: 45 }, healthy, 60)).toEqual([
+            { kind: 'slow', message: 'Encoder is running at 0.80x real time and falling behind' },
+            { kind: 'fps', message: 'Capturing 45.0 FPS instead of 60' }
+        ]);
+    });
+
+    it('tolerates small dips', () => {
+        expect(healthWarnings({ ...healthy, speed: 0.98, fps: 55 }, healthy, 60)).toEqual([]);
+    });
+
+    it('counts drops since the previous report only', () => {
+        expect(healthWarnings({ ...healthy, dropFrames: 12 }, { ...healthy, dropFrames: 9 }, 60))
+            .toEqual([{ kind: 'dropped', message: '3 frames dropped in the last second' }]);
+        expect(healthWarnings({ ...healthy, dropFrames: 12 }, { ...healthy, dropFrames: 12 }, 60)).toEqual([]);
+        // The first report has nothing to compare with
+        expect(healthWarnings({ ...healthy, dropFrames: 12 }, null, 60)).toEqual([]);
+    });
+
+    it('waits for the encoder to settle', () => {
+        expect(healthWarnings({ ...healthy, speed: 0.5, outTime: 2 }, null, 60)).toEqual([]);
+    });
+});
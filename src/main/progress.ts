@@ -0,0 +1,88 @@
+// Parses the key=value blocks FFmpeg writes with `-progress pipe:2`. Progress shares stderr
+// with regular log output, so everything that isn't a progress key is passed through as log text.
+
+import { RecorderWarning } from '../shared/stats';
+
+export interface FfmpegProgress {
+    frame: number;
+    fps: number;
+    // Kbit/s of the output so far, or null before FFmpeg can estimate it
+    bitrateKbps: number | null;
+    dupFrames: number;
+    dropFrames: number;
+    // Encoding speed relative to real time, null until known
+    speed: number | null;
+    // Seconds of output encoded
+    outTime: number;
+}
+
+const PROGRESS_KEYS = new Set([
+    'frame', 'fps', 'bitrate', 'total_size', 'out_time_us', 'out_time_ms', 'out_time',
+    'dup_frames', 'drop_frames', 'speed', 'progress'
+]);
+
+// Capture counts as falling behind below these, with a little slack for timing jitter
+const MIN_SPEED = 0.97;
+const MIN_FPS_RATIO = 0.9;
+// Warnings are suppressed until the encoder has settled after startup
+const WARMUP_SECONDS = 3;
+
+export function createProgressParser(onProgress: (progress: FfmpegProgress) => void, onLog: (text: string) => void) {
+    let partial = '';
+    let block: Record<string, string> = {};
+
+    return {
+        push(chunk: Buffer) {
+            const lines = (partial + chunk.toString()).split(/\r?\n/);
+            partial = lines.pop() || '';
+            let log = '';
+            for (const line of lines) {
+                const eq = line.indexOf('=');
+                const key = eq > 0 ? line.slice(0, eq) : '';
+                if (!PROGRESS_KEYS.has(key) && !key.startsWith('stream_')) {
+                    log += line + '\n';
+                    continue;
+                }
+                block[key] = line.slice(eq + 1).trim();
+                // `progress` closes every block
+                if (key === 'progress') {
+                    onProgress(toProgress(block));
+                    block = {};
+                }
+            }
+            if (log) onLog(log);
+        }
+    };
+}
+
+function toProgress(block: Record<string, string>): FfmpegProgress {
+    const bitrate = parseFloat(block.bitrate);
+    const speed = parseFloat(block.speed);
+    return {
+        frame: parseInt(block.frame) || 0,
+        fps: parseFloat(block.fps) || 0,
+        bitrateKbps: Number.isFinite(bitrate) ? bitrate : null,
+        dupFrames: parseInt(block.dup_frames) || 0,
+        dropFrames: parseInt(block.drop_frames) || 0,
+        speed: Number.isFinite(speed) ? speed : null,
+        outTime: (parseInt(block.out_time_us) || 0) / 1e6
+    };
+}
+
+// Compares a progress report with the previous one; drops are counted per interval
+// so a burst during startup doesn't keep the warning up for the rest of the session
+export function healthWarnings(current: FfmpegProgress, previous: FfmpegProgress | null, targetFps: number): RecorderWarning[] {
+    if (current.outTime < WARMUP_SECONDS) return [];
+    const warnings: RecorderWarning[] = [];
+    if (current.speed !== null && current.speed < MIN_SPEED) {
+        warnings.push({ kind: 'slow', message: `Encoder is running at ${current.speed.toFixed(2)}x real time and falling behind` });
+    }
+    if (current.fps > 0 && current.fps < targetFps * MIN_FPS_RATIO) {
+        warnings.push({ kind: 'fps', message: `Capturing ${current.fps.toFixed(1)} FPS instead of ${targetFps}` });
+    }
+    const dropped = current.dropFrames - (previous?.dropFrames || 0);
+    if (previous && dropped > 0) {
+        warnings.push({ kind: 'dropped', message: `${dropped} frame${dropped === 1 ? '' : 's'} dropped in the last second` });
+    }
+    return warnings;
+}
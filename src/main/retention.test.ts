@@ -0,0 +1,98 @@
+import { describe, it, expect } from 'vitest';
+import * as os from 'os';
+import { ClipInfo } from '../shared/clips';
+import { RetentionPolicy, retentionPolicy, retentionEnabled, clipsToDelete, freeSpace, checkSpace, formatSize, describeRemoved } from './retention';
+
+const GB = 1024 * 1024 * 1024;
+const DAY = 24 * 60 * 60 * 1000;
+const NOW = 100 * DAY;
+const OFF: RetentionPolicy = { maxBytes: 0, maxAgeMs: 0, keepNewest: 0 };
+
+// `age` in days before NOW, `size` in GB
+const clip = (name: string, age: number, size = 1, starred = false): ClipInfo => ({
+    name, title: name, size: size * GB, modified: NOW - age * DAY, bookmarks: [], starred
+});
+
+const names = (clips: ClipInfo[]) => clips.map(c => c.name);
+
+describe('retentionPolicy', () => {
+    it('converts the settings and is off when every limit is 0', () => {
+        const policy = retentionPolicy({ retentionMaxSize: 2, retentionMaxAge: 7, retentionKeepNewest: 0 });
+        expect(policy).toEqual({ maxBytes: 2 * GB, maxAgeMs: 7 * DAY, keepNewest: 0 });
+        expect(retentionEnabled(policy)).toBe(true);
+        expect(retentionEnabled(OFF)).toBe(false);
+    });
+});
+
+describe('clipsToDelete', () => {
+    const clips = [clip('c', 3), clip('a', 10), clip('d', 1), clip('b', 5)];
+
+    it('removes nothing with every limit off', () => {
+        expect(clipsToDelete(clips, OFF, NOW)).toEqual([]);
+    });
+
+    it('removes clips older than the age limit, oldest first', () => {
+        expect(names(clipsToDelete(clips, { ...OFF, maxAgeMs: 4 * DAY }, NOW))).toEqual(['a', 'b']);
+    });
+
+    it('keeps only the newest clips', () => {
+        expect(names(clipsToDelete(clips, { ...OFF, keepNewest: 1 }, NOW))).toEqual(['a', 'b', 'c']);
+    });
+
+    it('removes the oldest clips until the folder fits', () => {
+        expect(names(clipsToDelete(clips, { ...OFF, maxBytes: 2.5 * GB }, NOW))).toEqual(['a', 'b']);
+    });
+
+    it('counts what the other limits already removed toward the size limit', () => {
+        expect(names(clipsToDelete(clips, { ...OFF, maxAgeMs: 4 * DAY, maxBytes: 2 * GB }, NOW))).toEqual(['a', 'b']);
+    });
+
+    it('never removes the newest clip for size alone', () => {
+        expect(names(clipsToDelete([clip('old', 2), clip('new', 1, 5)], { ...OFF, maxBytes: GB }, NOW))).toEqual(['old']);
+    });
+
+    it('never removes starred clips', () => {
+        const withStar = [clip('starred', 10, 1, true), ...clips];
+        expect(names(clipsToDelete(withStar, { ...OFF, maxAgeMs: 4 * DAY }, NOW))).toEqual(['a', 'b']);
+        // Starred clips take up space...
+        expect(names(clipsToDelete(withStar, { ...OFF, maxBytes: 3 * GB }, NOW))).toEqual(['a', 'b']);
+        // ...but don't use up a keep-newest slot
+        expect(names(clipsToDelete([clip('new', 0, 1, true), ...clips], { ...OFF, keepNewest: 2 }, NOW))).toEqual(['a', 'b']);
+    });
+});
+
+describe('checkSpace', () => {
+    const dir = os.tmpdir();
+
+    it('passes a write that fits', () => {
+        expect(checkSpace([{ dir, bytes: 1 }], 0)).toEqual({ error: null, warning: null });
+    });
+
+    it('fails a write bigger than the disk', () => {
+        expect(checkSpace([{ dir, bytes: 2 ** 60 }], 0).error).toMatch(/^Not enough disk space in /);
+    });
+
+    it('adds up writes to the same disk', () => {
+        const over = Math.floor(freeSpace(dir)! / 2) + 1024 * 1024;
+        expect(checkSpace([{ dir, bytes: over }], 0).error).toBeNull();
+        expect(checkSpace([{ dir, bytes: over }, { dir, bytes: over }], 0).error).not.toBeNull();
+    });
+
+    it('warns when little would be left', () => {
+        const result = checkSpace([{ dir, bytes: 1 }], 2 ** 60);
+        expect(result.error).toBeNull();
+        expect(result.warning).toMatch(/^Low disk space in /);
+    });
+
+    it('skips disks it can\'t measure', () => {
+        expect(checkSpace([{ dir: '/no/such/dir', bytes: 2 ** 60 }], 0)).toEqual({ error: null, warning: null });
+    });
+});
+
+describe('describeRemoved', () => {
+    it('counts the clips and the space freed', () => {
+        expect(describeRemoved([clip('a', 1, 0.5), clip('b', 1, 0.75)])).toBe('2 old clips (1.3 GB)');
+        expect(describeRemoved([{ ...clip('a', 1), size: 300 * 1024 * 1024 }])).toBe('1 old clip (300 MB)');
+        expect(formatSize(GB)).toBe('1.0 GB');
+    });
+});
@@ -0,0 +1,137 @@
+// Output folder housekeeping: the retention policy that prunes old clips, and the free-space
+// checks run before a save writes its dump and clip.
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { listClips, forgetClip } from './clips';
+import { bookmarkSidecarPath } from './bookmarks';
+import { ClipInfo } from '../shared/clips';
+
+const GB = 1024 * 1024 * 1024;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface RetentionPolicy {
+    // 0 turns a limit off
+    maxBytes: number;
+    maxAgeMs: number;
+    keepNewest: number;
+}
+
+export function retentionPolicy(config: { retentionMaxSize: number, retentionMaxAge: number, retentionKeepNewest: number }): RetentionPolicy {
+    return {
+        maxBytes: config.retentionMaxSize * GB,
+        maxAgeMs: config.retentionMaxAge * DAY_MS,
+        keepNewest: config.retentionKeepNewest
+    };
+}
+
+export function retentionEnabled(policy: RetentionPolicy) {
+    return policy.maxBytes > 0 || policy.maxAgeMs > 0 || policy.keepNewest > 0;
+}
+
+// The clips the policy removes, oldest first. Starred clips are never picked; they count toward
+// the size limit (it's about disk space) but not toward keep-newest. The newest clip is never
+// removed for size alone, so a budget smaller than one clip doesn't delete the save just made.
+export function clipsToDelete(clips: ClipInfo[], policy: RetentionPolicy, now = Date.now()) {
+    const newestFirst = [...clips].sort((a, b) => b.modified - a.modified);
+    const doomed = new Set<ClipInfo>();
+
+    let kept = 0;
+    for (const clip of newestFirst) {
+        if (clip.starred) continue;
+        if (policy.maxAgeMs > 0 && now - clip.modified > policy.maxAgeMs) doomed.add(clip);
+        else if (policy.keepNewest > 0 && kept >= policy.keepNewest) doomed.add(clip);
+        else kept++;
+    }
+
+    if (policy.maxBytes > 0) {
+        let total = newestFirst.reduce((sum, c) => doomed.has(c) ? sum : sum + c.size, 0);
+        for (let i = newestFirst.length - 1; i > 0 && total > policy.maxBytes; i--) {
+            const clip = newestFirst[i];
+            if (clip.starred || doomed.has(clip)) continue;
+            doomed.add(clip);
+            total -= clip.size;
+        }
+    }
+
+    return newestFirst.filter(c => doomed.has(c)).reverse();
+}
+
+// Deletes for good rather than to the recycle bin, which would free no space
+export function applyRetention(folder: string, policy: RetentionPolicy) {
+    if (!retentionEnabled(policy)) return [];
+    const removed: ClipInfo[] = [];
+    for (const clip of clipsToDelete(listClips(folder), policy)) {
+        const file = path.join(folder, ...clip.name.split('/'));
+        try {
+            fs.unlinkSync(file);
+            if (fs.existsSync(bookmarkSidecarPath(file))) fs.unlinkSync(bookmarkSidecarPath(file));
+            forgetClip(folder, clip.name);
+            removed.push(clip);
+        } catch (e) {
+            console.error(`Retention could not delete ${clip.name}:`, e);
+        }
+    }
+    return removed;
+}
+
+// Bytes available to us on the disk holding `dir`, or null if it can't be determined
+export function freeSpace(dir: string) {
+    try {
+        const stats = fs.statfsSync(dir);
+        return stats.bavail * stats.bsize;
+    } catch (e) {
+        return null;
+    }
+}
+
+function deviceOf(dir: string) {
+    try {
+        return fs.statSync(dir).dev;
+    } catch (e) {
+        return null;
+    }
+}
+
+export interface SpaceCheck {
+    // Set when the write can't fit; the save should not start
+    error: string | null;
+    // Set when it fits but leaves less than the warning threshold
+    warning: string | null;
+}
+
+// Checks that each directory can take its planned write. Directories on the same disk share its
+// free space, so their needs add up (a save's temp dump and clip both exist for a moment).
+export function checkSpace(writes: { dir: string, bytes: number }[], warnBelowBytes: number): SpaceCheck {
+    const disks = new Map<number | string, { dir: string, bytes: number }>();
+    for (const write of writes) {
+        const key = deviceOf(write.dir) ?? write.dir;
+        const disk = disks.get(key);
+        if (disk) disk.bytes += write.bytes;
+        else disks.set(key, { ...write });
+    }
+
+    let warning: string | null = null;
+    for (const { dir, bytes } of disks.values()) {
+        const free = freeSpace(dir);
+        if (free === null) continue;
+        if (free < bytes) {
+            return { error: `Not enough disk space in ${dir}: needs ${formatSize(bytes)}, ${formatSize(free)} free`, warning: null };
+        }
+        if (!warning && free - bytes < warnBelowBytes) {
+            warning = `Low disk space in ${dir}: ${formatSize(free - bytes)} left after saving`;
+        }
+    }
+    return { error: null, warning };
+}
+
+export function formatSize(bytes: number) {
+    if (bytes >= GB) return `${(bytes / GB).toFixed(1)} GB`;
+    return `${Math.round(bytes / (1024 * 1024))} MB`;
+}
+
+// "3 old clips (1.2 GB)", for the notification after a clean-up
+export function describeRemoved(removed: ClipInfo[]) {
+    const bytes = removed.reduce((sum, c) => sum + c.size, 0);
+    return `${removed.length} old clip${removed.length === 1 ? '' : 's'} (${formatSize(bytes)})`;
+}
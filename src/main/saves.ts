@@ -0,0 +1,254 @@
+// Replay saves as queued jobs. Each save takes its range out of the buffer when it's requested,
+// so presses in quick succession each get the moment they asked for, however long the saves
+// before them take. Jobs start in request order, several at once if configured.
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { Readable } from 'stream';
+import { spawn } from 'child_process';
+import { ffmpeg, lastErrorLine } from './ffmpeg';
+import { createProgressParser } from './progress';
+import { SaveJob } from '../shared/saves';
+
+export interface SaveRequest {
+    // The buffer range, read from the buffer at request time
+    source: Readable;
+    bytes: number;
+    // Seconds of video, for remux progress
+    duration: number;
+    // Go before the dump's -i (e.g. -sseof without a keyframe index)
+    seekArgs: string[];
+    // FFMETADATA with the clip's chapters, if it has any
+    chapters: string | null;
+    // Go before the output file (stream metadata)
+    outputArgs: string[];
+    outputFile: string;
+}
+
+export interface SaveQueueOptions {
+    // Where dumps and chapter files go while a save runs
+    workDir: string;
+    // How many saves may run at once, read whenever a slot frees up
+    concurrency(): number;
+    // Called with a snapshot of every job whenever one is added, progresses or ends
+    onChange(jobs: SaveJob[]): void;
+}
+
+// Finished jobs stay listed until cleared, up to this many
+const MAX_FINISHED = 20;
+
+interface QueuedSave {
+    job: SaveJob;
+    request: SaveRequest;
+    // Stops whatever stage is running; set while one is
+    abort: (() => void) | null;
+    resolve(file: string): void;
+    reject(err: Error): void;
+}
+
+const isFinished = (job: SaveJob) => job.state === 'done' || job.state === 'failed' || job.state === 'cancelled';
+
+export function createSaveQueue(options: SaveQueueOptions) {
+    let entries: QueuedSave[] = [];
+    let running = 0;
+    let nextId = 1;
+
+    const snapshot = () => entries.map(e => ({ ...e.job }));
+    const changed = () => options.onChange(snapshot());
+
+    const dump = (entry: QueuedSave, file: string) => new Promise<void>((resolve, reject) => {
+        const { source, bytes } = entry.request;
+        const out = fs.createWriteStream(file);
+        let written = 0;
+        entry.abort = () => {
+            source.unpipe(out);
+            source.destroy();
+            out.destroy();
+            reject(new Error('Cancelled'));
+        };
+        source.on('data', (d: Buffer) => {
+            written += d.length;
+            entry.job.progress = bytes > 0 ? Math.min(1, written / bytes) : 0;
+            changed();
+        });
+        source.on('error', (err) => {
+            out.destroy();
+            reject(new Error(`Could not read the replay buffer: ${err.message}`));
+        });
+        out.on('error', (err: NodeJS.ErrnoException) => {
+            source.unpipe(out);
+            source.destroy();
+            reject(new Error(err.code === 'ENOSPC' ? `The disk holding ${options.workDir} is full` : err.message));
+        });
+        out.on('finish', () => resolve());
+        source.pipe(out);
+    });
+
+    const remux = (entry: QueuedSave, args: string[]) => new Promise<void>((resolve, reject) => {
+        let log = '';
+        const parser = createProgressParser((p) => {
+            entry.job.progress = entry.request.duration > 0 ? Math.min(1, p.outTime / entry.request.duration) : 0;
+            changed();
+        }, (text) => { log = (log + text).slice(-4000); });
+        const proc = spawn(ffmpeg, ['-hide_banner', '-nostats', '-progress', 'pipe:2', ...args], { windowsHide: true });
+        let cancelled = false;
+        entry.abort = () => {
+            cancelled = true;
+            proc.kill();
+        };
+        proc.stderr.on('data', (d: Buffer) => parser.push(d));
+        proc.on('error', reject);
+        proc.on('exit', (code) => {
+            if (cancelled) reject(new Error('Cancelled'));
+            // e.g. "No space left on device" rather than a bare exit code
+            else if (code !== 0) reject(new Error(lastErrorLine(log) || `FFmpeg exited with code ${code}`));
+            else resolve();
+        });
+    });
+
+    const run = async (entry: QueuedSave) => {
+        const { job, request } = entry;
+        const dumpFile = path.join(options.workDir, `dump_${Date.now()}_${job.id}.ts`);
+        // Bookmarks go in as MP4 chapters through an FFMETADATA input
+        const chaptersFile = request.chapters !== null ? path.join(options.workDir, `chapters_${Date.now()}_${job.id}.txt`) : null;
+        // Set once FFmpeg starts writing the clip, so a failed save only deletes its own output
+        let ownsOutput = false;
+        try {
+            fs.mkdirSync(options.workDir, { recursive: true });
+            job.state = 'dumping';
+            changed();
+            await dump(entry, dumpFile);
+
+            if (chaptersFile) fs.writeFileSync(chaptersFile, request.chapters);
+            job.state = 'remuxing';
+            job.progress = 0;
+            changed();
+            // The path was reserved while queued; anything there now came from somewhere else
+            if (fs.existsSync(request.outputFile)) throw new Error(`${path.basename(request.outputFile)} already exists`);
+            ownsOutput = true;
+            await remux(entry, [
+                // Never overwrite
+                '-n',
+                ...request.seekArgs,
+                '-i', dumpFile,
+                ...(chaptersFile ? ['-f', 'ffmetadata', '-i', chaptersFile, '-map_chapters', '1'] : []),
+                // Keep every audio track, not just FFmpeg's default pick
+                '-map', '0',
+                '-c', 'copy',
+                ...request.outputArgs,
+                '-movflags', '+faststart',
+                request.outputFile
+            ]);
+            job.state = 'done';
+            job.progress = 1;
+            entry.resolve(request.outputFile);
+        } catch (e) {
+            const error = e as Error;
+            job.state = error.message === 'Cancelled' ? 'cancelled' : 'failed';
+            job.error = job.state === 'failed' ? error.message : null;
+            try { if (ownsOutput && fs.existsSync(request.outputFile)) fs.unlinkSync(request.outputFile); } catch (err) { /* ignore */ }
+            entry.reject(error);
+        } finally {
+            entry.abort = null;
+            // Already read through unless the save failed first; destroying it lets go of the buffer range
+            request.source.destroy();
+            for (const f of [dumpFile, chaptersFile]) {
+                try { if (f && fs.existsSync(f)) fs.unlinkSync(f); } catch (err) { /* ignore */ }
+            }
+        }
+        changed();
+    };
+
+    const pump = () => {
+        while (running < Math.max(1, options.concurrency())) {
+            const next = entries.find(e => e.job.state === 'queued');
+            if (!next) return;
+            running++;
+            // Claimed before run() gets to it so the loop doesn't pick it twice
+            next.job.state = 'dumping';
+            run(next).finally(() => {
+                running--;
+                pump();
+            });
+        }
+    };
+
+    const dropOldFinished = () => {
+        const finished = entries.filter(e => isFinished(e.job));
+        if (finished.length > MAX_FINISHED) {
+            const drop = new Set(finished.slice(0, finished.length - MAX_FINISHED));
+            entries = entries.filter(e => !drop.has(e));
+        }
+    };
+
+    const cancelEntry = (entry: QueuedSave) => {
+        if (entry.job.state === 'queued') {
+            // Releases the buffer range (and, for the disk buffer, lets eviction resume)
+            entry.request.source.destroy();
+            entry.job.state = 'cancelled';
+            entry.reject(new Error('Cancelled'));
+        } else if (entry.abort) {
+            entry.abort();
+        }
+    };
+
+    return {
+        get jobs() {
+            return snapshot();
+        },
+
+        // Saves still queued or running
+        get pending() {
+            return entries.filter(e => !isFinished(e.job)).length;
+        },
+
+        // Resolves with the saved file; rejects with the reason ("Cancelled" when cancelled)
+        add(request: SaveRequest) {
+            return new Promise<string>((resolve, reject) => {
+                const job: SaveJob = {
+                    id: String(nextId++),
+                    requestedAt: Date.now(),
+                    duration: request.duration,
+                    state: 'queued',
+                    progress: 0,
+                    output: request.outputFile,
+                    error: null
+                };
+                entries.push({ job, request, abort: null, resolve, reject });
+                dropOldFinished();
+                changed();
+                pump();
+            });
+        },
+
+        cancel(id: string) {
+            const entry = entries.find(e => e.job.id === id);
+            if (!entry || isFinished(entry.job)) return;
+            cancelEntry(entry);
+            changed();
+        },
+
+        cancelAll() {
+            for (const entry of entries) {
+                if (!isFinished(entry.job)) cancelEntry(entry);
+            }
+        },
+
+        clearFinished() {
+            entries = entries.filter(e => !isFinished(e.job));
+            changed();
+        },
+
+        // Output files of saves that haven't finished, so new clips don't pick the same path
+        reservedFiles() {
+            return new Set(entries.filter(e => !isFinished(e.job)).map(e => e.request.outputFile));
+        },
+
+        find(id: string) {
+            const entry = entries.find(e => e.job.id === id);
+            return entry ? { ...entry.job } : null;
+        }
+    };
+}
+
+export type SaveQueue = ReturnType<typeof createSaveQueue>;
@@ -0,0 +1,144 @@
+// Full-session recording. It taps the same MPEG-TS stream the replay buffer is fed from, so
+// no second encoder runs: chunks are written straight to .ts parts in the output folder and
+// each finished part is remuxed into an .mp4 clip.
+
+import * as fs from 'fs';
+import { Readable } from 'stream';
+import { runFfmpeg } from './ffmpeg';
+
+export interface SessionOptions {
+    // Where part `n` (from 1) goes, as a .ts; it must not exist yet, as the part is written over
+    partFile(part: number): string;
+    // Start a new part once the current one reaches this size / age; 0 disables either limit
+    splitBytes: number;
+    splitMs: number;
+    // Called with each part's .ts file once it's complete
+    onPartClosed(file: string): void;
+}
+
+interface Part {
+    file: string;
+    stream: fs.WriteStream;
+    bytes: number;
+    openedAt: number;
+}
+
+export function createSessionWriter(options: SessionOptions) {
+    let part: Part | null = null;
+    let partNumber = 0;
+    let totalBytes = 0;
+    let wantsSplit = false;
+    // Live data is only taken from the first keyframe on, unless a pre-roll (which starts on one) came first
+    let started = false;
+    // Live chunks that arrive while the pre-roll is still being copied from the buffer
+    let queue: { chunk: Buffer, keyframes: number[] }[] | null = null;
+    let stopped = false;
+    // The buffer tail being copied in, until it has been read through
+    let preRollSource: Readable | null = null;
+
+    const openPart = () => {
+        partNumber++;
+        const file = options.partFile(partNumber);
+        const stream = fs.createWriteStream(file);
+        stream.on('error', (err) => console.error(`Session write to ${file} failed:`, err));
+        part = { file, stream, bytes: 0, openedAt: Date.now() };
+    };
+
+    const closePart = () => new Promise<void>((resolve) => {
+        if (!part) return resolve();
+        const { file, stream } = part;
+        part = null;
+        stream.end(() => {
+            options.onPartClosed(file);
+            resolve();
+        });
+    });
+
+    const writeData = (data: Buffer) => {
+        if (data.length === 0) return;
+        if (!part) openPart();
+        part.stream.write(data);
+        part.bytes += data.length;
+        totalBytes += data.length;
+    };
+
+    // `keyframes` are positions in `chunk` where a keyframe (and the PAT/PMT before it) begins.
+    // Parts are only split there, so every part starts decodable.
+    const write = (chunk: Buffer, keyframes: number[]) => {
+        if (!started) {
+            if (keyframes.length === 0) return;
+            chunk = chunk.subarray(keyframes[0]);
+            keyframes = keyframes.map(k => k - keyframes[0]).slice(1);
+            started = true;
+        }
+        if (part && !wantsSplit) {
+            wantsSplit = options.splitBytes > 0 && part.bytes >= options.splitBytes
+                || options.splitMs > 0 && Date.now() - part.openedAt >= options.splitMs;
+        }
+        if (wantsSplit && keyframes.length > 0) {
+            const at = keyframes[0];
+            writeData(chunk.subarray(0, at));
+            closePart();
+            wantsSplit = false;
+            chunk = chunk.subarray(at);
+        }
+        writeData(chunk);
+    };
+
+    return {
+        get status() {
+            return { bytes: totalBytes, part: Math.max(partNumber, 1) };
+        },
+
+        // Copies the tail of the replay buffer in first; live data appended meanwhile waits
+        preRoll(source: Readable) {
+            queue = [];
+            started = true;
+            preRollSource = source;
+            return new Promise<void>((resolve) => {
+                source.on('data', (d: Buffer) => { if (!stopped) writeData(d); });
+                source.on('error', (err) => console.error('Session pre-roll failed:', err));
+                // Also after an error, or when stop() cuts it short
+                source.on('close', () => resolve());
+            }).then(() => {
+                preRollSource = null;
+                const pending = queue;
+                queue = null;
+                if (!stopped) for (const q of pending) write(q.chunk, q.keyframes);
+            });
+        },
+
+        append(chunk: Buffer, keyframes: number[]) {
+            if (stopped) return;
+            if (queue) queue.push({ chunk, keyframes });
+            else write(chunk, keyframes);
+        },
+
+        // The stream changed (e.g. the recorder restarted with another encoder): finish the current
+        // part so the next one holds a single consistent stream
+        split() {
+            wantsSplit = false;
+            return closePart();
+        },
+
+        stop() {
+            stopped = true;
+            queue = null;
+            // Lets go of the part of the buffer it hasn't read yet
+            preRollSource?.destroy();
+            return closePart();
+        }
+    };
+}
+
+export type SessionWriter = ReturnType<typeof createSessionWriter>;
+
+// Stream-copies a finished .ts part into an .mp4 next to it and removes the .ts. On failure
+// (including an .mp4 of that name turning up meanwhile, which is never overwritten) the .ts
+// stays: it's still a playable recording of the session.
+export async function finalizePart(tsFile: string, extraArgs: string[] = []) {
+    const mp4File = tsFile.replace(/\.ts$/, '.mp4');
+    await runFfmpeg(['-n', '-f', 'mpegts', '-i', tsFile, '-map', '0', '-c', 'copy', ...extraArgs, '-movflags', '+faststart', mp4File]);
+    fs.unlinkSync(tsFile);
+    return mp4File;
+}
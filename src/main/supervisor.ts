@@ -0,0 +1,72 @@
+// Restart bookkeeping for the recorder process: exponential backoff between attempts and a
+// retry budget that only refills once a restarted recorder has stayed up for a while.
+
+export interface RestartPolicy {
+    initialDelay: number;
+    maxDelay: number;
+    // Consecutive failed restarts before giving up
+    maxAttempts: number;
+    // A recorder that ran this long counts as healthy again
+    stableAfter: number;
+}
+
+export const DEFAULT_RESTART_POLICY: RestartPolicy = {
+    initialDelay: 1000,
+    maxDelay: 30000,
+    maxAttempts: 5,
+    stableAfter: 60000
+};
+
+export interface Supervisor {
+    readonly attempts: number;
+    readonly maxAttempts: number;
+    // Call whenever a recorder process is spawned
+    started(): void;
+    // Schedules `restart` after the next backoff delay. Returns the delay in ms,
+    // or null when the retry budget is spent and nothing was scheduled.
+    scheduleRestart(restart: () => void): number | null;
+    // Drops a pending restart without touching the budget
+    cancel(): void;
+    // Drops a pending restart and refills the budget (user started or stopped recording)
+    reset(): void;
+}
+
+export function createSupervisor(policy: RestartPolicy = DEFAULT_RESTART_POLICY): Supervisor {
+    let attempts = 0;
+    let startedAt = 0;
+    let timer: NodeJS.Timeout | null = null;
+
+    const cancel = () => {
+        if (timer) clearTimeout(timer);
+        timer = null;
+    };
+
+    return {
+        get attempts() { return attempts; },
+        get maxAttempts() { return policy.maxAttempts; },
+
+        started() {
+            startedAt = Date.now();
+        },
+
+        scheduleRestart(restart) {
+            cancel();
+            if (startedAt && Date.now() - startedAt >= policy.stableAfter) attempts = 0;
+            if (attempts >= policy.maxAttempts) return null;
+            const delay = Math.min(policy.initialDelay * 2 ** attempts, policy.maxDelay);
+            attempts++;
+            timer = setTimeout(() => {
+                timer = null;
+                restart();
+            }, delay);
+            return delay;
+        },
+
+        cancel,
+
+        reset() {
+            cancel();
+            attempts = 0;
+        }
+    };
+}
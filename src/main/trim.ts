@@ -0,0 +1,128 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { probeFfmpeg, runFfmpeg } from './ffmpeg';
+import { probeClip, resolveClip, uniqueClipName } from './clips';
+import { readBookmarks, writeBookmarks } from './bookmarks';
+
+export interface TrimOptions {
+    // Seconds from the start of the clip
+    start: number;
+    end: number;
+    // Replace the original file instead of saving "<title>_trim"
+    overwrite: boolean;
+    // Re-encode the partial GOP before the first keyframe so the cut starts on the exact frame
+    accurate: boolean;
+}
+
+// Final outputs may have a temp extension, so the container is always named explicitly
+const MP4_OUTPUT = ['-f', 'mp4', '-movflags', '+faststart'];
+
+// Software encoders matching what the recorder can produce, used for the re-encoded head
+const HEAD_ENCODERS: Record<string, string> = {
+    h264: 'libx264',
+    hevc: 'libx265'
+};
+
+// Timestamps of every keyframe, read by decoding only keyframes through showinfo
+async function listKeyframes(file: string) {
+    const output = await probeFfmpeg(['-hide_banner', '-skip_frame', 'nokey', '-i', file, '-an', '-vf', 'showinfo', '-f', 'null', '-']);
+    return [...output.matchAll(/pts_time:([\d.]+)/g)].map(m => parseFloat(m[1]));
+}
+
+// Stream-copy cut, the same way saveReplay() extracts. Starts on the keyframe at or before `start`.
+function copyRange(input: string, start: number, duration: number, output: string, format: string[] = []) {
+    return runFfmpeg([
+        '-y',
+        '-ss', start.toFixed(3),
+        '-i', input,
+        '-t', duration.toFixed(3),
+        '-map', '0',
+        '-c', 'copy',
+        '-avoid_negative_ts', 'make_zero',
+        ...format,
+        output
+    ]);
+}
+
+async function accurateCut(input: string, opts: TrimOptions, output: string, workDir: string) {
+    const keyframes = await listKeyframes(input);
+    const onKeyframe = keyframes.some(t => Math.abs(t - opts.start) < 0.001);
+    const nextKeyframe = keyframes.find(t => t > opts.start);
+
+    if (onKeyframe) {
+        return copyRange(input, opts.start, opts.end - opts.start, output, MP4_OUTPUT);
+    }
+
+    const probe = await probeClip(input);
+    const encoder = HEAD_ENCODERS[probe.videoCodec] || 'libx264';
+    // Match the source bitrate so the re-encoded head doesn't visibly differ. A clip whose length
+    // can't be probed gets a near-transparent quality target instead.
+    const rate = probe.duration > 0
+        ? ['-b:v', `${Math.round(fs.statSync(input).size * 8 / probe.duration / 1000)}k`]
+        : ['-crf', '18'];
+    const encode = (start: number, duration: number, out: string, format: string[]) => runFfmpeg([
+        '-y',
+        '-ss', start.toFixed(3),
+        '-i', input,
+        '-t', duration.toFixed(3),
+        '-map', '0',
+        '-c:v', encoder, ...rate, '-pix_fmt', 'yuv420p',
+        '-c:a', 'aac', '-b:a', '256k',
+        ...format,
+        out
+    ]);
+
+    // No keyframe inside the range: nothing can be copied, re-encode all of it
+    if (nextKeyframe === undefined || nextKeyframe >= opts.end) {
+        return encode(opts.start, opts.end - opts.start, output, MP4_OUTPUT);
+    }
+
+    // Head (start -> first keyframe) is re-encoded, the rest is copied. Both go through MPEG-TS
+    // so parameter sets stay in-band and the concat demuxer can join them.
+    const stamp = Date.now();
+    const head = path.join(workDir, `trim_head_${stamp}.ts`);
+    const tail = path.join(workDir, `trim_tail_${stamp}.ts`);
+    const list = path.join(workDir, `trim_${stamp}.txt`);
+    try {
+        await encode(opts.start, nextKeyframe - opts.start, head, ['-f', 'mpegts']);
+        await copyRange(input, nextKeyframe, opts.end - nextKeyframe, tail, ['-f', 'mpegts']);
+        const entry = (f: string) => `file '${f.replace(/\\/g, '/').replace(/'/g, `'\\''`)}'`;
+        fs.writeFileSync(list, `${entry(head)}\n${entry(tail)}\n`);
+        await runFfmpeg(['-y', '-f', 'concat', '-safe', '0', '-i', list, '-map', '0', '-c', 'copy', ...MP4_OUTPUT, output]);
+    } finally {
+        for (const f of [head, tail, list]) {
+            try { fs.unlinkSync(f); } catch (e) { /* ignore */ }
+        }
+    }
+}
+
+// Returns the name of the resulting clip
+export async function trimClip(folder: string, name: string, opts: TrimOptions, workDir: string) {
+    const input = resolveClip(folder, name);
+    if (!(opts.end > opts.start) || opts.start < 0) throw new Error('Out point must be after the in point');
+
+    const outputName = opts.overwrite ? name : uniqueClipName(folder, name, '_trim');
+    // Overwrites go through a temp file so a failed cut never destroys the original
+    const output = opts.overwrite ? path.join(folder, `${name}.trimming`) : path.join(folder, outputName);
+
+    try {
+        if (opts.accurate) {
+            await accurateCut(input, opts, output, workDir);
+        } else {
+            await copyRange(input, opts.start, opts.end - opts.start, output, MP4_OUTPUT);
+        }
+    } catch (e) {
+        try { fs.unlinkSync(output); } catch (err) { /* ignore */ }
+        throw e;
+    }
+
+    // Bookmarks inside the kept range move with it (relative to the requested in point; a
+    // lossless cut may start slightly earlier on the keyframe)
+    const bookmarks = readBookmarks(input)
+        .filter(b => b.time >= opts.start && b.time <= opts.end)
+        .map(b => ({ ...b, time: Math.round((b.time - opts.start) * 1000) / 1000 }));
+
+    if (opts.overwrite) fs.renameSync(output, input);
+    writeBookmarks(path.join(folder, outputName), bookmarks);
+    return outputName;
+}
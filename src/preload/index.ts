@@ -1,18 +1,98 @@
 import { contextBridge, ipcRenderer } from 'electron';
+import type { Config, SaveConfigResult } from '../shared/config';
+import type { EncoderStatus, EncoderFallback } from '../shared/encoders';
+import type { RecorderStats } from '../shared/stats';
+import type { RecorderStatus } from '../shared/recorder';
+import type { SessionStatus } from '../shared/session';
+import type { CaptureSourceList, CameraInfo } from '../shared/capture';
+import type { AudioLevels, MicState } from '../shared/audio';
+import type { SaveJob } from '../shared/saves';
+import type { ExportJob } from '../shared/exports';
+import type { TrimOptions } from '../main/trim';
 
 contextBridge.exposeInMainWorld('api', {
-    getConfig: () => ipcRenderer.invoke('get-config'),
-    saveConfig: (config: any) => ipcRenderer.invoke('save-config', config),
+    getConfig: (): Promise<Config> => ipcRenderer.invoke('get-config'),
+    saveConfig: (config: Partial<Config>): Promise<SaveConfigResult> => ipcRenderer.invoke('save-config', config),
+    importPreset: (): Promise<SaveConfigResult | null> => ipcRenderer.invoke('import-preset'),
+    exportPreset: (id: string): Promise<boolean> => ipcRenderer.invoke('export-preset', id),
+    onConfigChanged: (callback: (config: Config) => void) => {
+        ipcRenderer.removeAllListeners('config-changed');
+        ipcRenderer.on('config-changed', (_e, config) => callback(config));
+    },
     getAudioDevices: () => ipcRenderer.invoke('get-audio-devices'),
+    getCaptureSources: (): Promise<CaptureSourceList> => ipcRenderer.invoke('get-capture-sources'),
+    getCameras: (): Promise<CameraInfo[]> => ipcRenderer.invoke('get-cameras'),
+    getEncoders: (): Promise<EncoderStatus[]> => ipcRenderer.invoke('get-encoders'),
+    getEncoderFallback: (): Promise<EncoderFallback | null> => ipcRenderer.invoke('get-encoder-fallback'),
+    getRecorderStatus: (): Promise<RecorderStatus> => ipcRenderer.invoke('get-recorder-status'),
     startRecording: () => ipcRenderer.invoke('start-recording'),
     stopRecording: () => ipcRenderer.invoke('stop-recording'),
-    saveReplay: () => ipcRenderer.invoke('save-replay'),
+    saveReplay: (seconds?: number) => ipcRenderer.invoke('save-replay', seconds),
+    getSaveJobs: (): Promise<SaveJob[]> => ipcRenderer.invoke('get-save-jobs'),
+    cancelSave: (id: string) => ipcRenderer.invoke('cancel-save', id),
+    clearSaves: () => ipcRenderer.invoke('clear-saves'),
+    showSave: (id: string) => ipcRenderer.invoke('show-save', id),
+    startSession: () => ipcRenderer.invoke('start-session'),
+    stopSession: () => ipcRenderer.invoke('stop-session'),
+    getSessionStatus: (): Promise<SessionStatus> => ipcRenderer.invoke('get-session-status'),
+    getMicState: (): Promise<MicState> => ipcRenderer.invoke('get-mic-state'),
     selectFolder: () => ipcRenderer.invoke('select-folder'),
+    listClips: () => ipcRenderer.invoke('list-clips'),
+    previewClipPath: (folderTemplate: string, nameTemplate: string) => ipcRenderer.invoke('preview-clip-path', folderTemplate, nameTemplate),
+    probeClip: (name: string) => ipcRenderer.invoke('probe-clip', name),
+    getClipThumbnail: (name: string) => ipcRenderer.invoke('get-clip-thumbnail', name),
+    playClip: (name: string) => ipcRenderer.invoke('play-clip', name),
+    showClipInFolder: (name: string) => ipcRenderer.invoke('show-clip-in-folder', name),
+    renameClip: (name: string, title: string) => ipcRenderer.invoke('rename-clip', name, title),
+    starClip: (name: string, starred: boolean) => ipcRenderer.invoke('star-clip', name, starred),
+    deleteClip: (name: string) => ipcRenderer.invoke('delete-clip', name),
+    trimClip: (name: string, opts: TrimOptions) => ipcRenderer.invoke('trim-clip', name, opts),
+    exportClip: (name: string, presetId: string) => ipcRenderer.invoke('export-clip', name, presetId),
+    getExportJobs: (): Promise<ExportJob[]> => ipcRenderer.invoke('get-export-jobs'),
+    cancelExport: (id: string) => ipcRenderer.invoke('cancel-export', id),
+    clearExports: () => ipcRenderer.invoke('clear-exports'),
+    showExport: (id: string) => ipcRenderer.invoke('show-export', id),
     windowControl: (action: string) => ipcRenderer.invoke('window-control', action),
     onRecordingStateChange: (callback: (state: boolean) => void) => {
         ipcRenderer.removeAllListeners('recording-state');
         ipcRenderer.on('recording-state', (_e, state) => callback(state));
     },
+    onClipSaved: (callback: (name: string) => void) => {
+        ipcRenderer.removeAllListeners('clip-saved');
+        ipcRenderer.on('clip-saved', (_e, name) => callback(name));
+    },
+    onSaveJobs: (callback: (jobs: SaveJob[]) => void) => {
+        ipcRenderer.removeAllListeners('save-jobs');
+        ipcRenderer.on('save-jobs', (_e, jobs) => callback(jobs));
+    },
+    onExportJobs: (callback: (jobs: ExportJob[]) => void) => {
+        ipcRenderer.removeAllListeners('export-jobs');
+        ipcRenderer.on('export-jobs', (_e, jobs) => callback(jobs));
+    },
+    onRecorderStatus: (callback: (status: RecorderStatus) => void) => {
+        ipcRenderer.removeAllListeners('recorder-status');
+        ipcRenderer.on('recorder-status', (_e, status) => callback(status));
+    },
+    onRecorderStats: (callback: (stats: RecorderStats) => void) => {
+        ipcRenderer.removeAllListeners('recorder-stats');
+        ipcRenderer.on('recorder-stats', (_e, stats) => callback(stats));
+    },
+    onAudioLevels: (callback: (levels: AudioLevels) => void) => {
+        ipcRenderer.removeAllListeners('audio-levels');
+        ipcRenderer.on('audio-levels', (_e, levels) => callback(levels));
+    },
+    onMicState: (callback: (state: MicState) => void) => {
+        ipcRenderer.removeAllListeners('mic-state');
+        ipcRenderer.on('mic-state', (_e, state) => callback(state));
+    },
+    onSessionStatus: (callback: (status: SessionStatus) => void) => {
+        ipcRenderer.removeAllListeners('session-status');
+        ipcRenderer.on('session-status', (_e, status) => callback(status));
+    },
+    onEncoderFallback: (callback: (fallback: EncoderFallback) => void) => {
+        ipcRenderer.removeAllListeners('encoder-fallback');
+        ipcRenderer.on('encoder-fallback', (_e, fallback) => callback(fallback));
+    },
     sendSystemAudioData: (buffer: ArrayBuffer) => ipcRenderer.send('system-audio-data', Buffer.from(buffer)),
     onStartSystemAudio: (callback: () => void) => {
         ipcRenderer.removeAllListeners('start-system-audio');
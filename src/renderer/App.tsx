@@ -1,17 +1,64 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { Settings, Video, FolderOpen, HardDrive, Monitor, Save, Minus, Square, X, Mic } from 'lucide-react';
-
-interface Config {
-    fps: string;
-    codec: string;
-    bitrate: string;
-    bufferTime: string;
-    outputFolder: string;
-    shortcut: string;
-    autoStart: boolean;
-    audioDevice: string;
-    systemAudioDevice: string;
-}
+import { Settings, Video, FolderOpen, HardDrive, Monitor, Save, Minus, Square, X, Mic, Keyboard, Plus, Trash2, Film, ChevronUp, ChevronDown, AlertTriangle, RefreshCw, Copy, Pencil, Upload, Download, Layers, Radio, Circle, Archive, Share2, FileText, SlidersHorizontal, Camera } from 'lucide-react';
+import ClipsTab from './Clips';
+import StatsPanel, { formatBytes, formatSeconds } from './Stats';
+import SourcePicker from './SourcePicker';
+import { ExportPresetEditor } from './Exports';
+import SaveJobList from './Saves';
+import AudioMixer, { MicIndicator } from './Mixer';
+import WebcamSettings from './Webcam';
+import { REPLAY_DURATIONS, HotkeyBinding, describeDuration, HotkeyTrigger, TRIGGER_LABELS, DEFAULT_HOLD_MS, hotkeyConflict, shortcutFromEvent, shortcutLabel } from '../shared/hotkeys';
+import { Config, ConfigErrors, DEFAULT_CONFIG, SaveConfigResult, newControlToken, newPresetId, presetSettings, uniquePresetName } from '../shared/config';
+import { EncoderStatus, EncoderFallback } from '../shared/encoders';
+import { RecorderStats } from '../shared/stats';
+import { RecorderStatus } from '../shared/recorder';
+import { SessionStatus, IDLE_SESSION } from '../shared/session';
+import { CLIP_NAME_TOKENS } from '../shared/filenames';
+
+const FIELD_LABELS: Partial<Record<keyof Config, string>> = {
+    fps: 'Framerate',
+    codec: 'Video codec',
+    encoderFallback: 'Encoder fallback order',
+    bitrate: 'Bitrate',
+    bufferTime: 'Replay buffer length',
+    outputFolder: 'Output folder',
+    hotkeys: 'Save hotkeys',
+    audioDevice: 'Microphone',
+    systemAudioDevice: 'System audio',
+    captureBackend: 'Capture backend',
+    captureSource: 'Capture source',
+    outputResolution: 'Output resolution',
+    bufferMode: 'Buffer storage',
+    audioTrackMode: 'Audio tracks',
+    presets: 'Presets',
+    activePreset: 'Active preset',
+    controlApiPort: 'Control API port',
+    controlApiToken: 'Control API token',
+    sessionPreRoll: 'Session pre-roll',
+    sessionSplitSize: 'Session split size',
+    sessionSplitMinutes: 'Session split length',
+    retentionMaxSize: 'Retention size limit',
+    retentionMaxAge: 'Retention age limit',
+    retentionKeepNewest: 'Clips to keep',
+    lowSpaceWarning: 'Low disk space warning',
+    exportPresets: 'Export presets',
+    clipFolderTemplate: 'Subfolder template',
+    clipNameTemplate: 'File name template',
+    saveConcurrency: 'Saves at once',
+    systemVolume: 'System audio volume',
+    systemMuted: 'System audio mute',
+    micVolume: 'Microphone volume',
+    micMuted: 'Microphone mute',
+    micNoiseSuppression: 'Noise suppression',
+    micNoiseGate: 'Noise gate',
+    micCompressor: 'Compressor',
+    micHighPass: 'High-pass filter',
+    webcamDevice: 'Camera',
+    webcamCorner: 'Camera corner',
+    webcamSize: 'Camera size',
+    webcamBorder: 'Camera border',
+    webcamOpacity: 'Camera opacity'
+};
 
 declare global {
     interface Window {
@@ -22,19 +69,26 @@ declare global {
 export default function App() {
     const [activeTab, setActiveTab] = useState('record');
     const [isRecording, setIsRecording] = useState(false);
-    const [isRecordingHotkey, setIsRecordingHotkey] = useState(false);
-    const [config, setConfig] = useState<Config>({
-        fps: '60',
-        codec: 'h264_nvenc',
-        bitrate: '15',
-        bufferTime: '300',
-        outputFolder: '',
-        shortcut: 'Alt+F10',
-        autoStart: false,
-        audioDevice: 'Default',
-        systemAudioDevice: 'Default'
-    });
+    // Index of the hotkey binding currently capturing a key combination
+    const [recordingHotkeyIndex, setRecordingHotkeyIndex] = useState<number | null>(null);
+    // Why the last change to a hotkey was refused
+    const [hotkeyError, setHotkeyError] = useState<{ index: number, message: string } | null>(null);
+    const [config, setConfig] = useState<Config>(DEFAULT_CONFIG);
+    // Rejected fields from the last save, shown above the settings
+    const [configErrors, setConfigErrors] = useState<ConfigErrors>({});
     const [audioDevices, setAudioDevices] = useState<string[]>(['None']);
+    // Null until the main process has finished test-encoding with each encoder
+    const [encoders, setEncoders] = useState<EncoderStatus[] | null>(null);
+    const [encoderFallback, setEncoderFallback] = useState<EncoderFallback | null>(null);
+    // Latest health report from the recorder, null until the first one after starting
+    const [recorderStats, setRecorderStats] = useState<RecorderStats | null>(null);
+    // Name being edited for the active preset, null when not renaming
+    const [presetName, setPresetName] = useState<string | null>(null);
+    const [presetError, setPresetError] = useState<string | null>(null);
+    const [recorderStatus, setRecorderStatus] = useState<RecorderStatus>({ state: 'idle', reason: null, attempt: 0, maxAttempts: 0, retryAt: null });
+    const [sessionStatus, setSessionStatus] = useState<SessionStatus>(IDLE_SESSION);
+    // Full path the next replay would get with the current name templates
+    const [clipPathPreview, setClipPathPreview] = useState('');
 
     const bufferOptions = [
         { label: '5 seconds', value: 5 },
@@ -48,19 +102,44 @@ export default function App() {
         { label: '15 minutes', value: 900 }
     ];
 
-    const currentBufferOption = bufferOptions.find(o => o.value.toString() === config.bufferTime) || bufferOptions[6];
+    const currentBufferOption = bufferOptions.find(o => o.value === config.bufferTime) || bufferOptions[6];
     const sliderIndex = bufferOptions.indexOf(currentBufferOption);
 
+    // Presets longer than the buffer would just save the whole buffer
+    const durationOptions = REPLAY_DURATIONS.filter(d => d.seconds === 0 || d.seconds <= currentBufferOption.value);
+    const wholeBufferHotkey = config.hotkeys.find(h => h.action === 'save-replay' && h.seconds === 0);
+
     useEffect(() => {
         if (window.api) {
             window.api.getConfig().then(setConfig);
-            window.api.onRecordingStateChange((state: boolean) => setIsRecording(state));
-            window.api.getAudioDevices().then(setAudioDevices);
+            window.api.onConfigChanged(setConfig);
+            window.api.onRecordingStateChange((state: boolean) => {
+                setIsRecording(state);
+                setRecorderStats(null);
+                window.api.getEncoderFallback().then(setEncoderFallback);
+            });
+            window.api.getEncoders().then(setEncoders);
+            window.api.getEncoderFallback().then(setEncoderFallback);
+            window.api.onEncoderFallback(setEncoderFallback);
+            window.api.onRecorderStats(setRecorderStats);
+            window.api.getRecorderStatus().then(setRecorderStatus);
+            window.api.onRecorderStatus(setRecorderStatus);
+            window.api.getSessionStatus().then(setSessionStatus);
+            window.api.onSessionStatus(setSessionStatus);
         } else {
             console.warn("API not found. Running in browser?");
         }
     }, []);
 
+    useEffect(() => {
+        if (window.api) window.api.previewClipPath(config.clipFolderTemplate, config.clipNameTemplate).then(setClipPathPreview);
+    }, [config.clipFolderTemplate, config.clipNameTemplate, config.outputFolder, config.activePreset, config.captureSource]);
+
+    // Device names differ per capture backend (dshow vs PulseAudio)
+    useEffect(() => {
+        if (window.api) window.api.getAudioDevices().then(setAudioDevices);
+    }, [config.captureBackend]);
+
     // System audio capture state
     const sysAudioCtxRef = useRef<any>(null);
     const sysAudioStreamRef = useRef<MediaStream | null>(null);
@@ -136,33 +215,129 @@ export default function App() {
         };
     }, []);
 
-    const handleConfigChange = (key: keyof Config, value: any) => {
+    const handleConfigChange = async (key: keyof Config, value: any) => {
         const newConfig = { ...config, [key]: value };
         setConfig(newConfig);
-        if (window.api) window.api.saveConfig(newConfig);
+        if (!window.api) return;
+        // The main process validates and rejects the whole change if any field is invalid
+        const result: SaveConfigResult = await window.api.saveConfig(newConfig);
+        setConfigErrors('errors' in result ? result.errors : {});
+    };
+
+    // For changes the main process completes itself (switching presets loads their settings),
+    // so its result replaces the local config instead of the other way round
+    const applyConfigChange = async (changes: Partial<Config>) => {
+        if (!window.api) return;
+        const result: SaveConfigResult = await window.api.saveConfig({ ...config, ...changes });
+        if ('errors' in result) {
+            setConfigErrors(result.errors);
+        } else {
+            setConfigErrors({});
+            setConfig(result.config);
+        }
+    };
+
+    const activePreset = config.presets.find(p => p.id === config.activePreset) || config.presets[0];
+
+    const addPreset = (name: string, settings: Config) => {
+        const preset = { id: newPresetId(), name: uniquePresetName(name, config.presets), ...presetSettings(settings) };
+        applyConfigChange({ presets: [...config.presets, preset], activePreset: preset.id });
     };
 
+    const commitPresetName = () => {
+        if (presetName !== null && presetName.trim()) {
+            const name = uniquePresetName(presetName, config.presets.filter(p => p !== activePreset));
+            applyConfigChange({ presets: config.presets.map(p => p === activePreset ? { ...p, name } : p) });
+        }
+        setPresetName(null);
+    };
+
+    const deletePreset = () => {
+        if (config.presets.length < 2 || !window.confirm(`Delete preset "${activePreset.name}"?`)) return;
+        const remaining = config.presets.filter(p => p !== activePreset);
+        applyConfigChange({
+            presets: remaining,
+            activePreset: remaining[0].id,
+            // Hotkeys that switched to it would do nothing now
+            hotkeys: config.hotkeys.filter(h => !(h.action === 'switch-preset' && h.preset === activePreset.id))
+        });
+    };
+
+    const importPreset = async () => {
+        try {
+            const result: SaveConfigResult | null = await window.api.importPreset();
+            if (result && !('errors' in result)) setConfig(result.config);
+            setPresetError(null);
+        } catch (e) {
+            setPresetError((e as Error).message.replace(/^Error invoking remote method '[^']+': (Error: )?/, ''));
+        }
+    };
+
+    // Refused when the binding would fire on the same input as another one
+    const updateHotkey = (index: number, changes: Partial<HotkeyBinding>) => {
+        const updated = { ...config.hotkeys[index], ...changes };
+        const conflict = config.hotkeys.map((h, i) => i === index ? null : hotkeyConflict(updated, h)).find(Boolean);
+        if (conflict) {
+            setHotkeyError({ index, message: conflict });
+            return;
+        }
+        setHotkeyError(null);
+        handleConfigChange('hotkeys', config.hotkeys.map((h, i) => i === index ? updated : h));
+    };
+
+    const addHotkey = () => {
+        handleConfigChange('hotkeys', [...config.hotkeys, { keys: '', action: 'save-replay', seconds: 30 }]);
+        setRecordingHotkeyIndex(config.hotkeys.length);
+    };
+
+    const removeHotkey = (index: number) => {
+        setHotkeyError(null);
+        handleConfigChange('hotkeys', config.hotkeys.filter((_, i) => i !== index));
+    };
+
+    // Keys are stored by KeyboardEvent.code, so they match the same physical key whatever the layout
     const handleKeyDown = (e: React.KeyboardEvent) => {
-        if (!isRecordingHotkey) return;
+        if (recordingHotkeyIndex === null) return;
         e.preventDefault();
 
+        // Wait for the main key
         if (['Control', 'Shift', 'Alt', 'Meta'].includes(e.key)) return;
 
-        let keys = [];
-        if (e.ctrlKey || e.metaKey) keys.push('CommandOrControl');
-        if (e.altKey) keys.push('Alt');
-        if (e.shiftKey) keys.push('Shift');
+        const keys = shortcutFromEvent(e, e.code);
+        if (!keys) {
+            setHotkeyError({ index: recordingHotkeyIndex, message: `${e.code || e.key} can't be used as a global hotkey` });
+        } else {
+            updateHotkey(recordingHotkeyIndex, { keys });
+        }
+        setRecordingHotkeyIndex(null);
+    };
+
+    // Mouse side buttons (back and forward) can be bound too
+    const handleMouseDown = (e: React.MouseEvent) => {
+        if (recordingHotkeyIndex === null || (e.button !== 3 && e.button !== 4)) return;
+        e.preventDefault();
+        const keys = shortcutFromEvent(e, `Mouse${e.button + 1}`);
+        if (keys) updateHotkey(recordingHotkeyIndex, { keys });
+        setRecordingHotkeyIndex(null);
+    };
 
-        let mainKey = e.key.length === 1 ? e.key.toUpperCase() : e.key;
-        if (mainKey === ' ') mainKey = 'Space';
+    const encoderLabel = (id: string) => encoders?.find(e => e.id === id)?.label || id;
+    const workingEncoders = encoders ? encoders.filter(e => e.available) : [];
 
-        keys.push(mainKey);
-        handleConfigChange('shortcut', keys.join('+'));
-        setIsRecordingHotkey(false);
+    const moveFallback = (idx: number, delta: number) => {
+        const chain = [...config.encoderFallback];
+        const [id] = chain.splice(idx, 1);
+        chain.splice(idx + delta, 0, id);
+        handleConfigChange('encoderFallback', chain);
     };
 
+    // The switch stays on while the supervisor restarts a crashed recorder
+    const switchOn = isRecording || recorderStatus.state === 'restarting';
+    // The buffer from before a crash can be saved until the user stops recording
+    const canSave = isRecording || recorderStatus.state === 'restarting' || recorderStatus.state === 'failed';
+
     const toggleRecording = () => {
-        const newState = !isRecording;
+        const newState = !switchOn;
         if (window.api) {
             if (newState) window.api.startRecording();
             else window.api.stopRecording();
@@ -170,8 +345,8 @@ export default function App() {
         setIsRecording(newState);
     };
 
-    const saveReplay = () => {
-        if (window.api) window.api.saveReplay();
+    const saveReplay = (seconds?: number) => {
+        if (window.api) window.api.saveReplay(seconds);
         else alert('Replay saved! (simulation)');
     };
 
@@ -206,6 +381,12 @@ export default function App() {
                 >
                     <Video /> Record
                 </div>
+                <div
+                    className={`nav-item ${activeTab === 'clips' ? 'active' : ''}`}
+                    onClick={() => setActiveTab('clips')}
+                >
+                    <Film /> Clips
+                </div>
                 <div
                     className={`nav-item ${activeTab === 'settings' ? 'active' : ''}`}
                     onClick={() => setActiveTab('settings')}
@@ -219,26 +400,92 @@ export default function App() {
                     <div className="animate-in glass-card">
                         <h2 className="card-title delay-1 animate-in"><Monitor /> Dashboard</h2>
 
-                        <div className={`switch-container delay-2 animate-in ${isRecording ? 'active' : ''}`} onClick={toggleRecording}>
+                        <div className={`switch-container delay-2 animate-in ${switchOn ? 'active' : ''}`} onClick={toggleRecording}>
                             <div>
-                                <div style={{ fontWeight: 600, fontSize: '18px', color: isRecording ? 'var(--accent-primary)' : 'var(--text-primary)' }}>
-                                    {isRecording ? 'Background Recording Active' : 'Background Recording Paused'}
+                                <div style={{ fontWeight: 600, fontSize: '18px', color: switchOn ? 'var(--accent-primary)' : 'var(--text-primary)' }}>
+                                    {recorderStatus.state === 'restarting' ? 'Restarting Recorder...'
+                                        : recorderStatus.state === 'failed' ? 'Background Recording Failed'
+                                        : isRecording ? 'Background Recording Active' : 'Background Recording Paused'}
                                 </div>
                                 <div style={{ fontSize: '12px', color: 'var(--text-secondary)', marginTop: '4px' }}>
-                                    Continuously buffers the last {currentBufferOption.label} of gameplay.
+                                    Continuously buffers the last {currentBufferOption.label} of gameplay · Preset: {activePreset.name}
                                 </div>
                             </div>
                             <div className="switch"><div className="switch-thumb"></div></div>
                         </div>
 
+                        {recorderStatus.state === 'restarting' && (
+                            <div className="delay-2 animate-in encoder-warning">
+                                <RefreshCw size={14} style={{ display: 'inline', marginBottom: '-2px' }} /> FFmpeg stopped unexpectedly: {recorderStatus.reason}
+                                <div style={{ marginTop: '4px' }}>Restart attempt {recorderStatus.attempt} of {recorderStatus.maxAttempts}. Everything buffered so far is kept and can still be saved.</div>
+                            </div>
+                        )}
+
+                        {recorderStatus.state === 'failed' && (
+                            <div className="delay-2 animate-in config-errors" style={{ marginTop: '16px', marginBottom: 0 }}>
+                                <div style={{ fontWeight: 600, marginBottom: '4px' }}>Recording stopped after {recorderStatus.attempt} failed restarts</div>
+                                <div>{recorderStatus.reason}</div>
+                                <button className="btn-secondary" style={{ marginTop: '8px' }} onClick={() => window.api.startRecording()}>
+                                    <RefreshCw size={14} /> Try Again
+                                </button>
+                            </div>
+                        )}
+
+                        {isRecording && (
+                            <div className="delay-2 animate-in" style={{ marginTop: '16px' }}>
+                                <StatsPanel stats={recorderStats} bufferTime={config.bufferTime} />
+                            </div>
+                        )}
+
+                        {(isRecording || sessionStatus.active) && (
+                            <div className="delay-2 animate-in session-row">
+                                {sessionStatus.active ? (
+                                    <>
+                                        <span className="session-dot" />
+                                        <span className="flex-1">
+                                            Recording session · {formatSeconds((Date.now() - sessionStatus.startedAt) / 1000)} · {formatBytes(sessionStatus.bytes)}
+                                            {sessionStatus.part > 1 ? ` · part ${sessionStatus.part}` : ''}
+                                        </span>
+                                        <button className="btn-secondary" onClick={() => window.api.stopSession()}><Square size={14} /> Stop Session</button>
+                                    </>
+                                ) : (
+                                    <>
+                                        <span className="flex-1" style={{ color: 'var(--text-secondary)' }}>
+                                            Record the whole session to a file{config.sessionPreRoll > 0 ? `, starting ${config.sessionPreRoll}s back` : ''}
+                                        </span>
+                                        <button className="btn-secondary" onClick={() => window.api.startSession()}><Circle size={14} /> Record Session</button>
+                                    </>
+                                )}
+                            </div>
+                        )}
+
+                        {isRecording && <MicIndicator muted={config.micMuted} onToggleMute={() => handleConfigChange('micMuted', !config.micMuted)} />}
+
+                        {isRecording && encoderFallback && (
+                            <div className="delay-2 animate-in encoder-warning">
+                                <AlertTriangle size={14} style={{ display: 'inline', marginBottom: '-2px' }} /> Recording with {encoderLabel(encoderFallback.to)} because {encoderLabel(encoderFallback.from)} isn't working: {encoderFallback.reason}
+                            </div>
+                        )}
+
                         <div className="control-group delay-3 animate-in" style={{ marginTop: '32px' }}>
-                            <button className="btn-primary" onClick={saveReplay} disabled={!isRecording} style={{ opacity: isRecording ? 1 : 0.5 }}>
-                                <Save /> Save Instant Replay ({config.shortcut})
+                            <button className="btn-primary" onClick={() => saveReplay()} disabled={!canSave} style={{ opacity: canSave ? 1 : 0.5 }}>
+                                <Save /> Save Instant Replay{wholeBufferHotkey?.keys ? ` (${shortcutLabel(wholeBufferHotkey.keys)})` : ''}
                             </button>
+                            <div className="flex-row">
+                                {durationOptions.filter(d => d.seconds > 0).map(d => (
+                                    <button key={d.seconds} className="btn-secondary flex-1" onClick={() => saveReplay(d.seconds)} disabled={!canSave}>
+                                        {d.label}
+                                    </button>
+                                ))}
+                            </div>
                         </div>
+
+                        <SaveJobList />
                     </div>
                 )}
 
+                {activeTab === 'clips' && <ClipsTab />}
+
                 {activeTab === 'settings' && (
                     <div className="animate-in glass-card">
                         <h2 className="card-title delay-1 animate-in" style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
@@ -252,17 +499,65 @@ export default function App() {
 
                         {isRecording && (
                             <div className="delay-1 animate-in" style={{ background: 'rgba(255, 170, 0, 0.1)', color: '#ffaa00', padding: '12px', borderRadius: '8px', marginBottom: '20px', fontSize: '13px', border: '1px solid rgba(255, 170, 0, 0.3)' }}>
-                                Background recording is currently running. You must pause recording from the Dashboard before adjusting settings.
+                                Background recording is currently running. You must pause recording from the Dashboard before adjusting settings, or switch to another preset to restart it with that preset's settings.
                             </div>
                         )}
 
+                        {Object.keys(configErrors).length > 0 && (
+                            <div className="delay-1 animate-in config-errors">
+                                <div style={{ fontWeight: 600, marginBottom: '4px' }}>Settings not saved:</div>
+                                {Object.entries(configErrors).map(([key, error]) => (
+                                    <div key={key}>{FIELD_LABELS[key as keyof Config] || key} {error}.</div>
+                                ))}
+                            </div>
+                        )}
+
+                        <div className="control-group delay-2 animate-in">
+                            <label className="control-label"><Layers size={14} style={{ display: 'inline', marginBottom: '-2px' }} /> Capture Preset</label>
+                            <div className="hotkey-row">
+                                {presetName !== null ? (
+                                    <input
+                                        type="text"
+                                        autoFocus
+                                        value={presetName}
+                                        onChange={(e) => setPresetName(e.target.value)}
+                                        onBlur={commitPresetName}
+                                        onKeyDown={(e) => {
+                                            if (e.key === 'Enter') commitPresetName();
+                                            if (e.key === 'Escape') setPresetName(null);
+                                        }}
+                                    />
+                                ) : (
+                                    <select value={config.activePreset} onChange={(e) => applyConfigChange({ activePreset: e.target.value })} style={{ flex: 1, width: 'auto' }}>
+                                        {config.presets.map(p => (
+                                            <option key={p.id} value={p.id}>{p.name}</option>
+                                        ))}
+                                    </select>
+                                )}
+                                <button className="icon-btn" title="New preset with default settings" onClick={() => addPreset('New preset', DEFAULT_CONFIG)}><Plus size={16} /></button>
+                                <button className="icon-btn" title="Duplicate preset" onClick={() => addPreset(`${activePreset.name} copy`, config)}><Copy size={16} /></button>
+                                <button className="icon-btn" title="Rename preset" onClick={() => setPresetName(activePreset.name)}><Pencil size={16} /></button>
+                                <button className="icon-btn" title="Import preset" onClick={importPreset}><Upload size={16} /></button>
+                                <button className="icon-btn" title="Export preset" onClick={() => window.api.exportPreset(activePreset.id)}><Download size={16} /></button>
+                                <button className="icon-btn danger" title="Delete preset" disabled={config.presets.length < 2} onClick={deletePreset}><Trash2 size={16} /></button>
+                            </div>
+                            {presetError && <div className="clip-error" style={{ fontSize: '13px' }}>{presetError}</div>}
+                            <div style={{ fontSize: '11px', color: 'var(--text-tertiary)' }}>
+                                Codec, framerate, bitrate, buffer and audio track settings below are saved to this preset. Switching presets restarts recording with the new settings.
+                            </div>
+                        </div>
+
                         <div className="flex-row delay-2 animate-in" style={{ gap: '16px' }}>
                             <div className="control-group flex-1">
                                 <label className="control-label"><HardDrive size={14} style={{ display: 'inline', marginBottom: '-2px' }} /> Video Codec</label>
-                                <select disabled={isRecording} value={config.codec} onChange={(e) => handleConfigChange('codec', e.target.value)}>
-                                    <option value="h264_nvenc">NVIDIA NVENC (H.264)</option>
-                                    <option value="hevc_nvenc">NVIDIA NVENC (HEVC)</option>
-                                    <option value="libx264">Software CPU (x264 fallback)</option>
+                                <select disabled={isRecording || !encoders} value={config.codec} onChange={(e) => handleConfigChange('codec', e.target.value)}>
+                                    {!encoders && <option value={config.codec}>Detecting encoders...</option>}
+                                    {encoders && !workingEncoders.some(e => e.id === config.codec) && (
+                                        <option value={config.codec}>{encoderLabel(config.codec)} (not working)</option>
+                                    )}
+                                    {workingEncoders.map(e => (
+                                        <option key={e.id} value={e.id}>{e.label}</option>
+                                    ))}
                                 </select>
                             </div>
 
@@ -286,10 +581,24 @@ export default function App() {
                             </div>
                         </div>
 
+                        <div className="control-group delay-2 animate-in" style={{ marginTop: '16px' }}>
+                            <label className="control-label"><Mic size={14} style={{ display: 'inline', marginBottom: '-2px' }} /> Audio Tracks</label>
+                            <select disabled={isRecording} value={config.audioTrackMode || 'mixed'} onChange={(e) => handleConfigChange('audioTrackMode', e.target.value)}>
+                                <option value="mixed">Single mixed track</option>
+                                <option value="separate">Separate tracks (System, Microphone)</option>
+                                <option value="separate-mixed">Separate tracks + mixed track first</option>
+                            </select>
+                        </div>
+
+                        <div className="control-group delay-2 animate-in" style={{ marginTop: '16px' }}>
+                            <label className="control-label"><SlidersHorizontal size={14} style={{ display: 'inline', marginBottom: '-2px' }} /> Audio Mixer</label>
+                            <AudioMixer config={config} onChange={handleConfigChange} />
+                        </div>
+
                         <div className="flex-row delay-2 animate-in" style={{ marginTop: '16px' }}>
                             <div className="control-group flex-1">
                                 <label className="control-label">Framerate (FPS)</label>
-                                <select disabled={isRecording} value={config.fps} onChange={(e) => handleConfigChange('fps', e.target.value)}>
+                                <select disabled={isRecording} value={config.fps} onChange={(e) => handleConfigChange('fps', Number(e.target.value))}>
                                     <option value="30">30 FPS</option>
                                     <option value="60">60 FPS</option>
                                     <option value="120">120 FPS</option>
@@ -300,11 +609,44 @@ export default function App() {
                                 <label className="control-label">Bitrate (Mbps)</label>
                                 <input
                                     type="number"
-                                    value={config.bitrate}
-                                    onChange={(e) => handleConfigChange('bitrate', e.target.value)}
+                                    value={Number.isNaN(config.bitrate) ? '' : config.bitrate}
+                                    onChange={(e) => handleConfigChange('bitrate', e.target.value === '' ? NaN : Number(e.target.value))}
                                     min="5" max="100"
                                 />
                             </div>
+
+                            <div className="control-group flex-1">
+                                <label className="control-label"><Monitor size={14} style={{ display: 'inline', marginBottom: '-2px' }} /> Capture Backend</label>
+                                <select disabled={isRecording} value={config.captureBackend || 'auto'} onChange={(e) => handleConfigChange('captureBackend', e.target.value)}>
+                                    <option value="auto">Automatic</option>
+                                    <option value="windows">Windows (Desktop Duplication)</option>
+                                    <option value="linux">Linux (X11 / KMS + PulseAudio)</option>
+                                    <option value="synthetic">Synthetic (test pattern)</option>
+                                </select>
+                            </div>
+                        </div>
+
+                        <div className="control-group delay-2 animate-in">
+                            <label className="control-label"><Monitor size={14} style={{ display: 'inline', marginBottom: '-2px' }} /> Capture Source</label>
+                            <SourcePicker value={config.captureSource} disabled={isRecording} onChange={(source) => handleConfigChange('captureSource', source)} />
+                        </div>
+
+                        <div className="control-group delay-2 animate-in">
+                            <label className="control-label"><Camera size={14} style={{ display: 'inline', marginBottom: '-2px' }} /> Webcam Overlay</label>
+                            <WebcamSettings config={config} disabled={isRecording} onChange={handleConfigChange} />
+                        </div>
+
+                        <div className="control-group delay-2 animate-in">
+                            <label className="control-label">Output Resolution</label>
+                            <select disabled={isRecording} value={config.outputResolution} onChange={(e) => handleConfigChange('outputResolution', e.target.value)}>
+                                <option value="native">Native</option>
+                                <option value="1440p">1440p</option>
+                                <option value="1080p">1080p</option>
+                                <option value="720p">720p</option>
+                            </select>
+                            <div style={{ fontSize: '11px', color: 'var(--text-tertiary)' }}>
+                                Scales the capture down before encoding, keeping its aspect ratio. Smaller sources are never upscaled.
+                            </div>
                         </div>
 
                         <div className="flex-row delay-3 animate-in">
@@ -320,13 +662,13 @@ export default function App() {
                                     max={bufferOptions.length - 1}
                                     step="1"
                                     value={sliderIndex}
-                                    onChange={(e) => handleConfigChange('bufferTime', bufferOptions[e.target.value as any].value.toString())}
+                                    onChange={(e) => handleConfigChange('bufferTime', bufferOptions[e.target.value as any].value)}
                                     style={{ width: '100%', accentColor: 'var(--accent-primary)', marginTop: '8px' }}
                                 />
                                 <div style={{ fontSize: '11px', color: 'var(--text-tertiary)', marginTop: '4px' }}>
-                                    Estimated disk usage: ~{(() => {
-                                        const bps = parseInt(config.bitrate) || 15;
-                                        const secs = parseInt(config.bufferTime) || 300;
+                                    Estimated {config.bufferMode === 'disk' ? 'disk' : 'memory'} usage: ~{(() => {
+                                        const bps = config.bitrate || 15;
+                                        const secs = config.bufferTime;
                                         const totalMb = (bps / 8) * secs;
                                         return totalMb >= 1024 ? (totalMb / 1024).toFixed(2) + ' GB' : Math.round(totalMb) + ' MB';
                                     })()}
@@ -334,33 +676,153 @@ export default function App() {
                             </div>
 
                             <div className="control-group flex-1">
-                                <label className="control-label">Capture Hotkey</label>
-                                <button
-                                    disabled={isRecording}
-                                    onClick={() => setIsRecordingHotkey(true)}
-                                    onKeyDown={handleKeyDown}
-                                    onBlur={() => setIsRecordingHotkey(false)}
-                                    style={{
-                                        width: '100%',
-                                        padding: '12px 16px',
-                                        borderRadius: '12px',
-                                        background: isRecordingHotkey ? 'var(--accent-glow)' : 'rgba(0, 0, 0, 0.3)',
-                                        border: `1px solid ${isRecordingHotkey ? 'var(--accent-primary)' : 'var(--border-glass)'}`,
-                                        color: isRecordingHotkey ? 'var(--accent-primary)' : 'var(--text-primary)',
-                                        cursor: isRecording ? 'not-allowed' : 'pointer',
-                                        opacity: isRecording ? 0.5 : 1,
-                                        textAlign: 'left',
-                                        outline: 'none',
-                                        fontFamily: 'Inter, sans-serif',
-                                        fontSize: '14px',
-                                        transition: 'var(--transition-fast)'
-                                    }}
-                                >
-                                    {isRecordingHotkey ? 'Press any key combination...' : config.shortcut}
-                                </button>
+                                <label className="control-label"><HardDrive size={14} style={{ display: 'inline', marginBottom: '-2px' }} /> Buffer Storage</label>
+                                <select disabled={isRecording} value={config.bufferMode || 'memory'} onChange={(e) => handleConfigChange('bufferMode', e.target.value)}>
+                                    <option value="memory">Memory (fastest, limited to 2.5 GB)</option>
+                                    <option value="disk">Disk (10s segments, survives crashes)</option>
+                                </select>
+                            </div>
+
+                            <div className="control-group flex-1">
+                                <label className="control-label"><Save size={14} style={{ display: 'inline', marginBottom: '-2px' }} /> Saves at Once</label>
+                                <select value={config.saveConcurrency} onChange={(e) => handleConfigChange('saveConcurrency', Number(e.target.value))}>
+                                    <option value="1">1 (one after another)</option>
+                                    <option value="2">2 in parallel</option>
+                                    <option value="3">3 in parallel</option>
+                                    <option value="4">4 in parallel</option>
+                                </select>
                             </div>
                         </div>
 
+                        <div className="control-group delay-3 animate-in">
+                            <label className="control-label"><HardDrive size={14} style={{ display: 'inline', marginBottom: '-2px' }} /> Encoder Fallback Order</label>
+                            {config.encoderFallback.map((id, idx) => {
+                                const status = encoders?.find(e => e.id === id);
+                                return (
+                                    <div key={id} className="hotkey-row">
+                                        <div className={`encoder-chain-item ${status && !status.available ? 'unavailable' : ''}`} title={status?.error || ''}>
+                                            {idx + 1}. {encoderLabel(id)}{status && !status.available ? ' (not working)' : ''}
+                                        </div>
+                                        <button className="icon-btn" disabled={isRecording || idx === 0} onClick={() => moveFallback(idx, -1)} title="Try earlier">
+                                            <ChevronUp size={16} />
+                                        </button>
+                                        <button className="icon-btn" disabled={isRecording || idx === config.encoderFallback.length - 1} onClick={() => moveFallback(idx, 1)} title="Try later">
+                                            <ChevronDown size={16} />
+                                        </button>
+                                        <button className="icon-btn danger" disabled={isRecording} onClick={() => handleConfigChange('encoderFallback', config.encoderFallback.filter(e => e !== id))} title="Remove from fallback order">
+                                            <Trash2 size={16} />
+                                        </button>
+                                    </div>
+                                );
+                            })}
+                            {encoders && encoders.some(e => !config.encoderFallback.includes(e.id)) && (
+                                <select disabled={isRecording} value="" onChange={(e) => handleConfigChange('encoderFallback', [...config.encoderFallback, e.target.value])}>
+                                    <option value="">Add encoder...</option>
+                                    {encoders.filter(e => !config.encoderFallback.includes(e.id)).map(e => (
+                                        <option key={e.id} value={e.id}>{e.label}{e.available ? '' : ' (not working)'}</option>
+                                    ))}
+                                </select>
+                            )}
+                            <div style={{ fontSize: '11px', color: 'var(--text-tertiary)' }}>
+                                Tried in order when the selected codec fails. Software x264 is always the last resort.
+                            </div>
+                        </div>
+
+                        <div className="control-group delay-3 animate-in">
+                            <label className="control-label"><Keyboard size={14} style={{ display: 'inline', marginBottom: '-2px' }} /> Hotkeys</label>
+                            {config.hotkeys.map((binding, idx) => (
+                                <React.Fragment key={idx}>
+                                    <div className="hotkey-row">
+                                        <button
+                                            className={`hotkey-capture ${recordingHotkeyIndex === idx ? 'active' : ''}`}
+                                            disabled={isRecording}
+                                            onClick={() => setRecordingHotkeyIndex(idx)}
+                                            onKeyDown={handleKeyDown}
+                                            onMouseDown={handleMouseDown}
+                                            onBlur={() => setRecordingHotkeyIndex(null)}
+                                        >
+                                            {recordingHotkeyIndex === idx ? 'Press a key combination or mouse side button...' : binding.keys ? shortcutLabel(binding.keys) : 'Not set'}
+                                        </button>
+                                        <select
+                                            className="hotkey-trigger"
+                                            disabled={isRecording}
+                                            value={binding.trigger || 'press'}
+                                            onChange={(e) => {
+                                                const trigger = e.target.value as HotkeyTrigger;
+                                                updateHotkey(idx, { trigger, holdMs: trigger === 'hold' ? binding.holdMs || DEFAULT_HOLD_MS : undefined });
+                                            }}
+                                        >
+                                            {(Object.keys(TRIGGER_LABELS) as HotkeyTrigger[]).map(t => (
+                                                <option key={t} value={t}>{TRIGGER_LABELS[t]}</option>
+                                            ))}
+                                        </select>
+                                        {binding.trigger === 'hold' && (
+                                            <input
+                                                type="number"
+                                                className="hotkey-hold"
+                                                title="How long to hold, in milliseconds"
+                                                min="100" max="10000" step="100"
+                                                disabled={isRecording}
+                                                value={Number.isNaN(binding.holdMs) ? '' : binding.holdMs}
+                                                onChange={(e) => updateHotkey(idx, { holdMs: e.target.value === '' ? NaN : Number(e.target.value) })}
+                                            />
+                                        )}
+                                        <select
+                                            disabled={isRecording}
+                                            value={binding.action === 'switch-preset' ? `preset:${binding.preset}`
+                                                : binding.action === 'save-replay' ? `save:${binding.seconds}` : binding.action}
+                                            onChange={(e) => {
+                                                const [kind, value] = e.target.value.split(/:(.*)/);
+                                                updateHotkey(idx, kind === 'preset'
+                                                    ? { action: 'switch-preset', preset: value, seconds: 0, label: undefined }
+                                                    : kind === 'save'
+                                                        ? { action: 'save-replay', preset: undefined, seconds: parseInt(value), label: undefined }
+                                                        : { action: kind as HotkeyBinding['action'], preset: undefined, seconds: 0, label: kind === 'mark' ? '' : undefined });
+                                            }}
+                                        >
+                                            <optgroup label="Save replay">
+                                                {durationOptions.map(d => (
+                                                    <option key={d.seconds} value={`save:${d.seconds}`}>{d.label}</option>
+                                                ))}
+                                                {/* A length the list no longer offers (the buffer got shorter) still shows */}
+                                                {binding.action === 'save-replay' && !durationOptions.some(d => d.seconds === binding.seconds) && (
+                                                    <option value={`save:${binding.seconds}`}>{describeDuration(binding.seconds)}</option>
+                                                )}
+                                            </optgroup>
+                                            <optgroup label="Switch preset">
+                                                {config.presets.map(p => (
+                                                    <option key={p.id} value={`preset:${p.id}`}>{p.name}</option>
+                                                ))}
+                                            </optgroup>
+                                            <optgroup label="Other">
+                                                <option value="mark">Mark moment</option>
+                                                <option value="toggle-session">Start / stop session recording</option>
+                                                <option value="push-to-talk">Push-to-talk (hold)</option>
+                                                <option value="toggle-mic">Mute / unmute microphone</option>
+                                            </optgroup>
+                                        </select>
+                                        {binding.action === 'mark' && (
+                                            <input
+                                                type="text"
+                                                className="hotkey-label"
+                                                placeholder="Label (optional)"
+                                                disabled={isRecording}
+                                                value={binding.label || ''}
+                                                onChange={(e) => updateHotkey(idx, { label: e.target.value })}
+                                            />
+                                        )}
+                                        <button className="icon-btn danger" disabled={isRecording} onClick={() => removeHotkey(idx)} title="Remove hotkey">
+                                            <Trash2 size={16} />
+                                        </button>
+                                    </div>
+                                    {hotkeyError?.index === idx && <div className="clip-error" style={{ fontSize: '13px' }}>{hotkeyError.message}</div>}
+                                </React.Fragment>
+                            ))}
+                            <button className="btn-secondary" disabled={isRecording} onClick={addHotkey}>
+                                <Plus size={16} /> Add Hotkey
+                            </button>
+                        </div>
+
                         <div className="control-group delay-3 animate-in">
                             <label className="control-label"><FolderOpen size={14} style={{ display: 'inline', marginBottom: '-2px' }} /> Output Folder</label>
                             <div style={{ display: 'flex', gap: '8px' }}>
@@ -383,6 +845,134 @@ export default function App() {
                             </div>
                         </div>
 
+                        <div className="control-group delay-3 animate-in">
+                            <label className="control-label"><FileText size={14} style={{ display: 'inline', marginBottom: '-2px' }} /> Clip Names</label>
+                            <div className="flex-row">
+                                <div className="control-group flex-1">
+                                    <label className="control-label">Subfolders</label>
+                                    <input
+                                        type="text"
+                                        placeholder="e.g. {yyyy}/{mm}"
+                                        value={config.clipFolderTemplate}
+                                        onChange={(e) => handleConfigChange('clipFolderTemplate', e.target.value)}
+                                    />
+                                </div>
+                                <div className="control-group" style={{ flex: 2 }}>
+                                    <label className="control-label">File name</label>
+                                    <input
+                                        type="text"
+                                        value={config.clipNameTemplate}
+                                        onChange={(e) => handleConfigChange('clipNameTemplate', e.target.value)}
+                                    />
+                                </div>
+                            </div>
+                            <div className="template-preview" title={clipPathPreview}>{clipPathPreview}</div>
+                            <div className="token-list">
+                                {CLIP_NAME_TOKENS.map(t => (
+                                    <button
+                                        key={t.token}
+                                        className="token-chip"
+                                        title={t.description}
+                                        onClick={() => handleConfigChange('clipNameTemplate', `${config.clipNameTemplate}{${t.token}}`)}
+                                    >
+                                        {`{${t.token}}`}
+                                    </button>
+                                ))}
+                            </div>
+                            <div style={{ fontSize: '11px', color: 'var(--text-tertiary)' }}>
+                                Click a token to add it to the file name. Times are local; characters that aren't allowed in file names are replaced, and a number is added if the name is taken.
+                            </div>
+                        </div>
+
+                        <div className="control-group delay-3 animate-in">
+                            <label className="control-label"><Archive size={14} style={{ display: 'inline', marginBottom: '-2px' }} /> Clip Retention</label>
+                            <div className="flex-row">
+                                <div className="control-group flex-1">
+                                    <label className="control-label">Max folder size (GB)</label>
+                                    <input
+                                        type="number"
+                                        min="0" step="0.5"
+                                        value={Number.isNaN(config.retentionMaxSize) ? '' : config.retentionMaxSize}
+                                        onChange={(e) => handleConfigChange('retentionMaxSize', e.target.value === '' ? NaN : Number(e.target.value))}
+                                    />
+                                </div>
+                                <div className="control-group flex-1">
+                                    <label className="control-label">Max age (days)</label>
+                                    <input
+                                        type="number"
+                                        min="0" max="3650"
+                                        value={Number.isNaN(config.retentionMaxAge) ? '' : config.retentionMaxAge}
+                                        onChange={(e) => handleConfigChange('retentionMaxAge', e.target.value === '' ? NaN : Number(e.target.value))}
+                                    />
+                                </div>
+                                <div className="control-group flex-1">
+                                    <label className="control-label">Keep newest (clips)</label>
+                                    <input
+                                        type="number"
+                                        min="0"
+                                        value={Number.isNaN(config.retentionKeepNewest) ? '' : config.retentionKeepNewest}
+                                        onChange={(e) => handleConfigChange('retentionKeepNewest', e.target.value === '' ? NaN : Number(e.target.value))}
+                                    />
+                                </div>
+                                <div className="control-group flex-1">
+                                    <label className="control-label">Warn below (GB free)</label>
+                                    <input
+                                        type="number"
+                                        min="0" max="1024"
+                                        value={Number.isNaN(config.lowSpaceWarning) ? '' : config.lowSpaceWarning}
+                                        onChange={(e) => handleConfigChange('lowSpaceWarning', e.target.value === '' ? NaN : Number(e.target.value))}
+                                    />
+                                </div>
+                            </div>
+                            <div style={{ fontSize: '11px', color: 'var(--text-tertiary)' }}>
+                                The oldest clips beyond these limits are permanently deleted after each save; 0 turns a limit off. Starred clips are never deleted.
+                            </div>
+                        </div>
+
+                        <div className="control-group delay-3 animate-in">
+                            <label className="control-label"><Share2 size={14} style={{ display: 'inline', marginBottom: '-2px' }} /> Export Presets</label>
+                            <ExportPresetEditor presets={config.exportPresets} onChange={(presets) => handleConfigChange('exportPresets', presets)} />
+                            <div style={{ fontSize: '11px', color: 'var(--text-tertiary)' }}>
+                                Re-encode a clip for sharing from the Clip Library's export button; "Auto" presets run on every saved replay. A size limit (MB) uses a two-pass encode with the bitrate worked out from the clip's length. Exports are saved in the output folder's Exports subfolder.
+                            </div>
+                        </div>
+
+                        <div className="control-group delay-3 animate-in">
+                            <label className="control-label"><Circle size={14} style={{ display: 'inline', marginBottom: '-2px' }} /> Session Recording</label>
+                            <div className="flex-row">
+                                <div className="control-group flex-1">
+                                    <label className="control-label">Pre-roll (seconds)</label>
+                                    <input
+                                        type="number"
+                                        min="0" max="3600"
+                                        value={Number.isNaN(config.sessionPreRoll) ? '' : config.sessionPreRoll}
+                                        onChange={(e) => handleConfigChange('sessionPreRoll', e.target.value === '' ? NaN : Number(e.target.value))}
+                                    />
+                                </div>
+                                <div className="control-group flex-1">
+                                    <label className="control-label">Split every (MB)</label>
+                                    <input
+                                        type="number"
+                                        min="0"
+                                        value={Number.isNaN(config.sessionSplitSize) ? '' : config.sessionSplitSize}
+                                        onChange={(e) => handleConfigChange('sessionSplitSize', e.target.value === '' ? NaN : Number(e.target.value))}
+                                    />
+                                </div>
+                                <div className="control-group flex-1">
+                                    <label className="control-label">Split every (minutes)</label>
+                                    <input
+                                        type="number"
+                                        min="0" max="1440"
+                                        value={Number.isNaN(config.sessionSplitMinutes) ? '' : config.sessionSplitMinutes}
+                                        onChange={(e) => handleConfigChange('sessionSplitMinutes', e.target.value === '' ? NaN : Number(e.target.value))}
+                                    />
+                                </div>
+                            </div>
+                            <div style={{ fontSize: '11px', color: 'var(--text-tertiary)' }}>
+                                Sessions are written from the same stream as the replay buffer, so they cost no extra encoding. Pre-roll is limited to what's buffered; 0 turns a split limit off.
+                            </div>
+                        </div>
+
                         <div className={`switch-container delay-3 animate-in ${config.autoStart ? 'active' : ''}`} onClick={() => !isRecording && handleConfigChange('autoStart', !config.autoStart)} style={{ marginTop: '24px', opacity: isRecording ? 0.5 : 1, pointerEvents: isRecording ? 'none' : 'auto' }}>
                             <div>
                                 <div style={{ fontWeight: 600, fontSize: '15px', color: config.autoStart ? 'var(--accent-primary)' : 'var(--text-primary)' }}>
@@ -395,6 +985,43 @@ export default function App() {
                             <div className="switch"><div className="switch-thumb"></div></div>
                         </div>
 
+                        <div className={`switch-container delay-3 animate-in ${config.controlApiEnabled ? 'active' : ''}`} onClick={() => applyConfigChange({ controlApiEnabled: !config.controlApiEnabled })} style={{ marginTop: '16px' }}>
+                            <div>
+                                <div style={{ fontWeight: 600, fontSize: '15px', color: config.controlApiEnabled ? 'var(--accent-primary)' : 'var(--text-primary)' }}>
+                                    <Radio size={14} style={{ display: 'inline', marginBottom: '-2px' }} /> Local Control API
+                                </div>
+                                <div style={{ fontSize: '12px', color: 'var(--text-secondary)', marginTop: '4px' }}>
+                                    Lets Stream Deck plugins, scripts and bots on this PC save replays and start or stop recording over HTTP and WebSocket.
+                                </div>
+                            </div>
+                            <div className="switch"><div className="switch-thumb"></div></div>
+                        </div>
+
+                        {config.controlApiEnabled && (
+                            <div className="flex-row animate-in" style={{ marginTop: '16px' }}>
+                                <div className="control-group" style={{ width: '140px' }}>
+                                    <label className="control-label">Port</label>
+                                    <input
+                                        type="number"
+                                        value={Number.isNaN(config.controlApiPort) ? '' : config.controlApiPort}
+                                        onChange={(e) => handleConfigChange('controlApiPort', e.target.value === '' ? NaN : Number(e.target.value))}
+                                        min="1024" max="65535"
+                                    />
+                                </div>
+                                <div className="control-group flex-1">
+                                    <label className="control-label">Access Token</label>
+                                    <div className="hotkey-row">
+                                        <input type="text" readOnly value={config.controlApiToken} style={{ fontFamily: 'monospace' }} />
+                                        <button className="icon-btn" title="Copy token" onClick={() => navigator.clipboard.writeText(config.controlApiToken)}><Copy size={16} /></button>
+                                        <button className="icon-btn" title="Generate a new token (disconnects existing clients)" onClick={() => applyConfigChange({ controlApiToken: newControlToken() })}><RefreshCw size={16} /></button>
+                                    </div>
+                                    <div style={{ fontSize: '11px', color: 'var(--text-tertiary)' }}>
+                                        e.g. <code>curl -X POST -H "Authorization: Bearer &lt;token&gt;" http://127.0.0.1:{config.controlApiPort}/save-replay?duration=30</code>
+                                    </div>
+                                </div>
+                            </div>
+                        )}
+
                     </div>
                 )}
             </div>
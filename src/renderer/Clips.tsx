@@ -0,0 +1,163 @@
+import React, { useState, useEffect } from 'react';
+import { Film, Play, Pencil, Trash2, FolderOpen, RefreshCw, Scissors, Bookmark, Star, Share2 } from 'lucide-react';
+import { ClipInfo, ClipProbe } from '../shared/clips';
+import { ExportPreset } from '../shared/config';
+import TrimView from './Trim';
+import { ExportJobList, ExportMenu } from './Exports';
+
+function formatSize(bytes: number) {
+    const mb = bytes / (1024 * 1024);
+    return mb >= 1024 ? (mb / 1024).toFixed(2) + ' GB' : mb.toFixed(1) + ' MB';
+}
+
+function formatDuration(seconds: number) {
+    const total = Math.round(seconds);
+    const m = Math.floor(total / 60);
+    const s = total % 60;
+    return `${m}:${s.toString().padStart(2, '0')}`;
+}
+
+function ClipCard({ clip, exportPresets, onChanged, onTrim }: {
+    clip: ClipInfo, exportPresets: ExportPreset[], onChanged: () => void, onTrim: (at?: number) => void
+}) {
+    const [probe, setProbe] = useState<ClipProbe | null>(null);
+    const [thumbnail, setThumbnail] = useState<string | null>(null);
+    const [isRenaming, setIsRenaming] = useState(false);
+    const [title, setTitle] = useState(clip.title);
+    const [error, setError] = useState<string | null>(null);
+    const [isExporting, setIsExporting] = useState(false);
+
+    // Probing and thumbnails spawn FFmpeg, so each card loads its own lazily
+    useEffect(() => {
+        let cancelled = false;
+        window.api.probeClip(clip.name).then((p: ClipProbe) => !cancelled && setProbe(p)).catch(() => { });
+        window.api.getClipThumbnail(clip.name).then((t: string) => !cancelled && setThumbnail(t)).catch(() => { });
+        return () => { cancelled = true; };
+    }, [clip.name, clip.modified]);
+
+    const commitRename = async () => {
+        setIsRenaming(false);
+        if (title.trim() === clip.title) return;
+        try {
+            await window.api.renameClip(clip.name, title);
+            setError(null);
+            onChanged();
+        } catch (e) {
+            setError((e as Error).message.replace(/^Error invoking remote method '[^']+': (Error: )?/, ''));
+            setTitle(clip.title);
+        }
+    };
+
+    const toggleStar = async () => {
+        await window.api.starClip(clip.name, !clip.starred);
+        onChanged();
+    };
+
+    const deleteClip = async () => {
+        if (!window.confirm(`Move "${clip.name}" to the recycle bin?`)) return;
+        await window.api.deleteClip(clip.name);
+        onChanged();
+    };
+
+    return (
+        <div className="clip-card">
+            <div className="clip-thumb" onClick={() => window.api.playClip(clip.name)}>
+                {thumbnail ? <img src={thumbnail} alt="" /> : <Film size={32} />}
+                {probe && <span className="clip-duration">{formatDuration(probe.duration)}</span>}
+            </div>
+            <div className="clip-body">
+                {isRenaming ? (
+                    <input
+                        type="text"
+                        autoFocus
+                        value={title}
+                        onChange={(e) => setTitle(e.target.value)}
+                        onBlur={commitRename}
+                        onKeyDown={(e) => {
+                            if (e.key === 'Enter') commitRename();
+                            if (e.key === 'Escape') { setTitle(clip.title); setIsRenaming(false); }
+                        }}
+                    />
+                ) : (
+                    <div className="clip-title" title={clip.name}>{clip.title}</div>
+                )}
+                <div className="clip-meta">
+                    {probe ? `${probe.width}x${probe.height} · ${probe.videoCodec}${probe.audioCodec ? ' / ' + probe.audioCodec : ''} · ` : ''}
+                    {formatSize(clip.size)}
+                </div>
+                <div className="clip-meta">{new Date(clip.modified).toLocaleString()}</div>
+                {clip.bookmarks.length > 0 && (
+                    <div className="bookmark-list">
+                        {clip.bookmarks.map((b, i) => (
+                            <button key={i} className="bookmark-chip" title="Open at this bookmark" onClick={() => onTrim(b.time)}>
+                                <Bookmark size={12} /> {b.label} · {formatDuration(b.time)}
+                            </button>
+                        ))}
+                    </div>
+                )}
+                {error && <div className="clip-error">{error}</div>}
+                <div className="clip-actions">
+                    <button className="icon-btn" title="Play" onClick={() => window.api.playClip(clip.name)}><Play size={16} /></button>
+                    <button className="icon-btn" title="Trim" onClick={() => onTrim()}><Scissors size={16} /></button>
+                    <button className={`icon-btn ${isExporting ? 'active' : ''}`} title="Export" onClick={() => setIsExporting(!isExporting)}><Share2 size={16} /></button>
+                    <button className="icon-btn" title="Rename" onClick={() => setIsRenaming(true)}><Pencil size={16} /></button>
+                    <button className="icon-btn" title="Show in folder" onClick={() => window.api.showClipInFolder(clip.name)}><FolderOpen size={16} /></button>
+                    <button
+                        className={`icon-btn ${clip.starred ? 'starred' : ''}`}
+                        title={clip.starred ? 'Unstar' : 'Star (never deleted by retention)'}
+                        onClick={toggleStar}
+                    >
+                        <Star size={16} fill={clip.starred ? 'currentColor' : 'none'} />
+                    </button>
+                    <button className="icon-btn danger" title="Delete" onClick={deleteClip}><Trash2 size={16} /></button>
+                </div>
+                {isExporting && <ExportMenu clip={clip.name} presets={exportPresets} onClose={() => setIsExporting(false)} />}
+            </div>
+        </div>
+    );
+}
+
+export default function ClipsTab() {
+    const [clips, setClips] = useState<ClipInfo[]>([]);
+    const [trimming, setTrimming] = useState<ClipInfo | null>(null);
+    // Where the trimmer opens when a bookmark was clicked
+    const [trimStart, setTrimStart] = useState(0);
+    const [exportPresets, setExportPresets] = useState<ExportPreset[]>([]);
+
+    const refresh = () => {
+        if (window.api) window.api.listClips().then(setClips);
+    };
+
+    useEffect(() => {
+        refresh();
+        if (window.api) {
+            window.api.onClipSaved(() => refresh());
+            window.api.getConfig().then((c: { exportPresets: ExportPreset[] }) => setExportPresets(c.exportPresets));
+        }
+    }, []);
+
+    if (trimming) {
+        return <TrimView clip={trimming} startAt={trimStart} onClose={() => { setTrimming(null); refresh(); }} />;
+    }
+
+    return (
+        <div className="animate-in glass-card">
+            <h2 className="card-title delay-1 animate-in" style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+                <span style={{ display: 'flex', alignItems: 'center', gap: '12px' }}><Film /> Clip Library</span>
+                <button className="btn-secondary" onClick={refresh}><RefreshCw size={14} /> Refresh</button>
+            </h2>
+
+            <ExportJobList />
+
+            {clips.length === 0 ? (
+                <div className="delay-2 animate-in" style={{ color: 'var(--text-secondary)', fontSize: '14px' }}>
+                    No clips yet. Saved replays from your output folder will show up here.
+                </div>
+            ) : (
+                <div className="clip-grid delay-2 animate-in">
+                    {clips.map(clip => <ClipCard key={clip.name} clip={clip} exportPresets={exportPresets} onChanged={refresh} onTrim={(at) => { setTrimStart(at || 0); setTrimming(clip); }} />)}
+                </div>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,136 @@
+import React, { useState, useEffect } from 'react';
+import { X, FolderOpen, Plus, Trash2 } from 'lucide-react';
+import { ExportFormat, ExportPreset, newPresetId, uniquePresetName } from '../shared/config';
+import { ExportJob } from '../shared/exports';
+
+const FORMAT_LABELS: Record<ExportFormat, string> = {
+    mp4: 'MP4 (H.264 / AAC)',
+    webm: 'WebM (VP9 / Opus)',
+    gif: 'GIF',
+    audio: 'Audio only (M4A)'
+};
+
+const STATE_LABELS: Record<ExportJob['state'], string> = {
+    queued: 'Waiting',
+    running: 'Exporting',
+    done: 'Done',
+    failed: 'Failed',
+    cancelled: 'Cancelled'
+};
+
+// Background exports, newest last; hidden when there are none
+export function ExportJobList() {
+    const [jobs, setJobs] = useState<ExportJob[]>([]);
+
+    useEffect(() => {
+        if (!window.api) return;
+        window.api.getExportJobs().then(setJobs);
+        window.api.onExportJobs(setJobs);
+    }, []);
+
+    if (jobs.length === 0) return null;
+    const active = (job: ExportJob) => job.state === 'queued' || job.state === 'running';
+
+    return (
+        <div className="job-list">
+            {jobs.map(job => (
+                <div key={job.id} className={`job-row ${job.state}`}>
+                    <div className="flex-1" style={{ minWidth: 0 }}>
+                        <div className="job-title" title={job.clip}>{job.presetName} · {job.clip}</div>
+                        <div className="job-progress"><div style={{ width: `${Math.round(job.progress * 100)}%` }} /></div>
+                        <div className="clip-meta">
+                            {STATE_LABELS[job.state]}{job.state === 'running' ? ` ${Math.round(job.progress * 100)}%` : ''}
+                            {job.error ? `: ${job.error}` : ''}
+                        </div>
+                    </div>
+                    {active(job) && <button className="icon-btn danger" title="Cancel export" onClick={() => window.api.cancelExport(job.id)}><X size={16} /></button>}
+                    {job.state === 'done' && <button className="icon-btn" title="Show in folder" onClick={() => window.api.showExport(job.id)}><FolderOpen size={16} /></button>}
+                </div>
+            ))}
+            {jobs.some(j => !active(j)) && (
+                <button className="btn-secondary" onClick={() => window.api.clearExports()}>Clear finished</button>
+            )}
+        </div>
+    );
+}
+
+function numberValue(raw: string) {
+    return raw === '' ? NaN : Number(raw);
+}
+
+// Settings editor for config.exportPresets
+export function ExportPresetEditor({ presets, onChange }: { presets: ExportPreset[], onChange: (presets: ExportPreset[]) => void }) {
+    const update = (idx: number, changes: Partial<ExportPreset>) => {
+        onChange(presets.map((p, i) => i === idx ? { ...p, ...changes } : p));
+    };
+
+    const add = () => {
+        onChange([...presets, { id: newPresetId(), name: uniquePresetName('New export', presets), format: 'mp4', maxSize: 0, maxHeight: 0, fps: 0, auto: false }]);
+    };
+
+    return (
+        <div>
+            {presets.map((preset, idx) => {
+                const sized = preset.format === 'mp4' || preset.format === 'webm';
+                const video = preset.format !== 'audio';
+                return (
+                    <div key={preset.id} className="export-preset-row">
+                        <input type="text" value={preset.name} onChange={(e) => update(idx, { name: e.target.value })} />
+                        <select value={preset.format} onChange={(e) => update(idx, { format: e.target.value as ExportFormat })}>
+                            {(Object.keys(FORMAT_LABELS) as ExportFormat[]).map(f => <option key={f} value={f}>{FORMAT_LABELS[f]}</option>)}
+                        </select>
+                        <input
+                            type="number" min="0" title="Fit under this many MB (0 = no limit)" placeholder="MB"
+                            disabled={!sized}
+                            value={Number.isNaN(preset.maxSize) ? '' : preset.maxSize}
+                            onChange={(e) => update(idx, { maxSize: numberValue(e.target.value) })}
+                        />
+                        <input
+                            type="number" min="0" title="Maximum height in pixels (0 = keep)" placeholder="Height"
+                            disabled={!video}
+                            value={Number.isNaN(preset.maxHeight) ? '' : preset.maxHeight}
+                            onChange={(e) => update(idx, { maxHeight: numberValue(e.target.value) })}
+                        />
+                        <input
+                            type="number" min="0" max="240" title="Frame rate cap (0 = keep)" placeholder="FPS"
+                            disabled={!video}
+                            value={Number.isNaN(preset.fps) ? '' : preset.fps}
+                            onChange={(e) => update(idx, { fps: numberValue(e.target.value) })}
+                        />
+                        <label className="export-auto" title="Export every saved replay with this preset">
+                            <input type="checkbox" checked={preset.auto} onChange={(e) => update(idx, { auto: e.target.checked })} /> Auto
+                        </label>
+                        <button className="icon-btn danger" title="Remove export preset" onClick={() => onChange(presets.filter((_, i) => i !== idx))}>
+                            <Trash2 size={16} />
+                        </button>
+                    </div>
+                );
+            })}
+            <button className="btn-secondary" onClick={add}><Plus size={16} /> Add Export Preset</button>
+        </div>
+    );
+}
+
+// Export button on a clip card: pick a preset to queue
+export function ExportMenu({ clip, presets, onClose }: { clip: string, presets: ExportPreset[], onClose: () => void }) {
+    const [error, setError] = useState<string | null>(null);
+
+    const start = async (id: string) => {
+        try {
+            await window.api.exportClip(clip, id);
+            onClose();
+        } catch (e) {
+            setError((e as Error).message.replace(/^Error invoking remote method '[^']+': (Error: )?/, ''));
+        }
+    };
+
+    return (
+        <div className="export-menu">
+            {presets.length === 0 && <div className="clip-meta">No export presets. Add some in Settings.</div>}
+            {presets.map(p => (
+                <button key={p.id} onClick={() => start(p.id)}>{p.name}</button>
+            ))}
+            {error && <div className="clip-error">{error}</div>}
+        </div>
+    );
+}
@@ -0,0 +1,119 @@
+import React, { useState, useEffect } from 'react';
+import { Volume2, VolumeX, Mic, MicOff } from 'lucide-react';
+import { Config, ConfigChange } from '../shared/config';
+import { AudioLevels, MicState, MIC_STATE_LABELS, SILENCE_DB } from '../shared/audio';
+
+// The meter spans -60 dBFS to 0
+const METER_FLOOR_DB = -60;
+
+type MicFilter = 'micHighPass' | 'micNoiseSuppression' | 'micNoiseGate' | 'micCompressor';
+
+const MIC_FILTERS: { key: MicFilter, label: string, description: string }[] = [
+    { key: 'micHighPass', label: 'High-pass', description: 'Cuts rumble and desk thumps below 80 Hz' },
+    { key: 'micNoiseSuppression', label: 'Noise suppression', description: 'Removes steady background noise like fans and hum' },
+    { key: 'micNoiseGate', label: 'Noise gate', description: 'Silences the mic between words' },
+    { key: 'micCompressor', label: 'Compressor', description: 'Evens out loud and quiet speech' }
+];
+
+function LevelMeter({ db }: { db: number | undefined }) {
+    const fill = db === undefined ? 0 : Math.max(0, Math.min(1, (db - METER_FLOOR_DB) / -METER_FLOOR_DB));
+    const tone = db === undefined ? '' : db > -1 ? 'clipping' : db > -9 ? 'hot' : '';
+    const title = db === undefined ? 'Not recording' : `Peak ${db <= SILENCE_DB ? '-∞' : db.toFixed(1)} dBFS`;
+    return <div className={`level-meter ${tone}`} title={title}><div style={{ width: `${Math.round(fill * 100)}%` }} /></div>;
+}
+
+// Commits when released rather than on every step, since each change restarts the recorder
+function VolumeSlider({ value, disabled, onCommit }: { value: number, disabled: boolean, onCommit: (value: number) => void }) {
+    const [draft, setDraft] = useState<number | null>(null);
+    const commit = () => {
+        if (draft !== null && draft !== value) onCommit(draft);
+        setDraft(null);
+    };
+    const shown = draft ?? value;
+
+    return (
+        <>
+            <input
+                type="range" min="0" max="200" step="5"
+                disabled={disabled}
+                value={shown}
+                onChange={(e) => setDraft(Number(e.target.value))}
+                onPointerUp={commit} onKeyUp={commit} onBlur={commit}
+                style={{ accentColor: 'var(--accent-primary)' }}
+            />
+            <span className="mixer-value">{shown}%</span>
+        </>
+    );
+}
+
+// Settings section: gain, mute and a live level meter per source, plus the microphone's filters.
+// Mutes apply live; other changes restart the recorder, and the replay buffer carries over.
+export default function AudioMixer({ config, onChange }: { config: Config, onChange: ConfigChange }) {
+    const [levels, setLevels] = useState<AudioLevels>({});
+
+    useEffect(() => {
+        if (!window.api) return;
+        window.api.onAudioLevels(setLevels);
+    }, []);
+
+    const strips = [
+        { id: 'system', label: 'System audio', volume: 'systemVolume', muted: 'systemMuted', off: config.systemAudioDevice === 'None' },
+        { id: 'microphone', label: 'Microphone', volume: 'micVolume', muted: 'micMuted', off: config.audioDevice === 'None' }
+    ] as const;
+
+    return (
+        <div>
+            {strips.map(strip => (
+                <div key={strip.id} className="mixer-strip" style={{ opacity: strip.off ? 0.5 : 1 }}>
+                    <span className="mixer-label">{strip.label}</span>
+                    <button
+                        className={`icon-btn ${config[strip.muted] ? 'muted' : ''}`}
+                        title={config[strip.muted] ? 'Unmute' : 'Mute'}
+                        disabled={strip.off}
+                        onClick={() => onChange(strip.muted, !config[strip.muted])}
+                    >
+                        {config[strip.muted] ? <VolumeX size={16} /> : <Volume2 size={16} />}
+                    </button>
+                    <VolumeSlider value={config[strip.volume]} disabled={strip.off} onCommit={(v) => onChange(strip.volume, v)} />
+                    <LevelMeter db={strip.off ? undefined : levels[strip.id]} />
+                </div>
+            ))}
+            <div className="mixer-filters" style={{ opacity: config.audioDevice === 'None' ? 0.5 : 1 }}>
+                {MIC_FILTERS.map(f => (
+                    <label key={f.key} className="mixer-option" title={f.description}>
+                        <input
+                            type="checkbox"
+                            disabled={config.audioDevice === 'None'}
+                            checked={config[f.key]}
+                            onChange={(e) => onChange(f.key, e.target.checked)}
+                        /> {f.label}
+                    </label>
+                ))}
+            </div>
+        </div>
+    );
+}
+
+// Dashboard row showing what recordings get from the microphone right now
+export function MicIndicator({ muted, onToggleMute }: { muted: boolean, onToggleMute: () => void }) {
+    const [state, setState] = useState<MicState>('off');
+
+    useEffect(() => {
+        if (!window.api) return;
+        window.api.getMicState().then(setState);
+        window.api.onMicState(setState);
+    }, []);
+
+    if (state === 'off') return null;
+    const open = state === 'live' || state === 'talking';
+
+    return (
+        <div className={`delay-2 animate-in session-row mic-row ${state}`}>
+            {open ? <Mic size={16} /> : <MicOff size={16} />}
+            <span className="flex-1">
+                {MIC_STATE_LABELS[state]}{state === 'push-to-talk' ? ' · hold the push-to-talk key to be heard in clips' : ''}
+            </span>
+            <button className="btn-secondary" onClick={onToggleMute}>{muted ? 'Unmute' : 'Mute'}</button>
+        </div>
+    );
+}
@@ -0,0 +1,53 @@
+import React, { useState, useEffect } from 'react';
+import { X, FolderOpen } from 'lucide-react';
+import { SaveJob } from '../shared/saves';
+import { formatSeconds } from './Stats';
+
+const STATE_LABELS: Record<SaveJob['state'], string> = {
+    queued: 'Waiting',
+    dumping: 'Copying buffer',
+    remuxing: 'Writing MP4',
+    done: 'Saved',
+    failed: 'Failed',
+    cancelled: 'Cancelled'
+};
+
+const fileName = (file: string) => file.split(/[/\\]/).pop();
+
+// Replay saves on the Dashboard, oldest first; hidden when there are none
+export default function SaveJobList() {
+    const [jobs, setJobs] = useState<SaveJob[]>([]);
+
+    useEffect(() => {
+        if (!window.api) return;
+        window.api.getSaveJobs().then(setJobs);
+        window.api.onSaveJobs(setJobs);
+    }, []);
+
+    if (jobs.length === 0) return null;
+    const active = (job: SaveJob) => job.state === 'queued' || job.state === 'dumping' || job.state === 'remuxing';
+
+    return (
+        <div className="job-list delay-3 animate-in" style={{ marginTop: '24px' }}>
+            {jobs.map(job => (
+                <div key={job.id} className={`job-row ${job.state}`}>
+                    <div className="flex-1" style={{ minWidth: 0 }}>
+                        <div className="job-title" title={job.output}>
+                            {formatSeconds(job.duration)} replay · {new Date(job.requestedAt).toLocaleTimeString()} · {fileName(job.output)}
+                        </div>
+                        <div className="job-progress"><div style={{ width: `${Math.round((job.state === 'done' ? 1 : job.progress) * 100)}%` }} /></div>
+                        <div className="clip-meta">
+                            {STATE_LABELS[job.state]}{job.state === 'dumping' || job.state === 'remuxing' ? ` ${Math.round(job.progress * 100)}%` : ''}
+                            {job.error ? `: ${job.error}` : ''}
+                        </div>
+                    </div>
+                    {active(job) && <button className="icon-btn danger" title="Cancel save" onClick={() => window.api.cancelSave(job.id)}><X size={16} /></button>}
+                    {job.state === 'done' && <button className="icon-btn" title="Show in folder" onClick={() => window.api.showSave(job.id)}><FolderOpen size={16} /></button>}
+                </div>
+            ))}
+            {jobs.some(j => !active(j)) && (
+                <button className="btn-secondary" onClick={() => window.api.clearSaves()}>Clear finished</button>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,137 @@
+import React, { useState, useEffect } from 'react';
+import { Monitor, AppWindow, Crop, RefreshCw } from 'lucide-react';
+import { CaptureSource } from '../shared/config';
+import { CaptureSourceList, MonitorInfo } from '../shared/capture';
+
+type Kind = CaptureSource['kind'];
+
+function SourceTile({ thumbnail, label, detail, selected, disabled, onClick }: {
+    thumbnail: string, label: string, detail?: string, selected: boolean, disabled: boolean, onClick: () => void
+}) {
+    return (
+        <button className={`source-tile ${selected ? 'active' : ''}`} disabled={disabled} onClick={onClick} title={label}>
+            <div className="source-thumb">{thumbnail ? <img src={thumbnail} alt="" /> : <Monitor size={24} />}</div>
+            <div className="source-label">{label}</div>
+            {detail && <div className="source-detail">{detail}</div>}
+        </button>
+    );
+}
+
+// Region rectangle drawn over the monitor's preview, scaled to the preview's size
+function RegionPreview({ monitor, region }: { monitor: MonitorInfo, region: Extract<CaptureSource, { kind: 'region' }> }) {
+    const pct = (v: number, total: number) => `${Math.max(0, Math.min(100, (v / total) * 100))}%`;
+    return (
+        <div className="region-preview" style={{ aspectRatio: `${monitor.width} / ${monitor.height}` }}>
+            {monitor.thumbnail && <img src={monitor.thumbnail} alt="" />}
+            <div
+                className="region-rect"
+                style={{
+                    left: pct(region.x, monitor.width),
+                    top: pct(region.y, monitor.height),
+                    width: pct(region.width, monitor.width),
+                    height: pct(region.height, monitor.height)
+                }}
+            />
+        </div>
+    );
+}
+
+export default function SourcePicker({ value, disabled, onChange }: { value: CaptureSource, disabled: boolean, onChange: (source: CaptureSource) => void }) {
+    const [sources, setSources] = useState<CaptureSourceList | null>(null);
+
+    const refresh = () => {
+        if (window.api) window.api.getCaptureSources().then(setSources).catch(() => setSources({ monitors: [], windows: [] }));
+    };
+
+    useEffect(refresh, []);
+
+    const monitors = sources?.monitors || [];
+    const selectedMonitor = value.kind === 'window' ? 0 : value.monitor;
+
+    const setKind = (kind: Kind) => {
+        if (kind === value.kind) return;
+        if (kind === 'monitor') onChange({ kind, monitor: selectedMonitor });
+        else if (kind === 'window') {
+            const first = sources?.windows[0];
+            if (first) onChange({ kind, id: first.id, title: first.title });
+        } else {
+            // Start from the middle half of the monitor
+            const m = monitors[selectedMonitor] || { width: 1920, height: 1080 };
+            onChange({ kind, monitor: selectedMonitor, x: Math.round(m.width / 4), y: Math.round(m.height / 4), width: Math.round(m.width / 2), height: Math.round(m.height / 2) });
+        }
+    };
+
+    const updateRegion = (key: 'x' | 'y' | 'width' | 'height', raw: string) => {
+        if (value.kind !== 'region') return;
+        onChange({ ...value, [key]: raw === '' ? NaN : Number(raw) });
+    };
+
+    return (
+        <div className="source-picker">
+            <div className="hotkey-row">
+                <div className="segmented flex-1">
+                    <button className={value.kind === 'monitor' ? 'active' : ''} disabled={disabled} onClick={() => setKind('monitor')}><Monitor size={14} /> Monitor</button>
+                    <button className={value.kind === 'window' ? 'active' : ''} disabled={disabled || !sources?.windows.length} onClick={() => setKind('window')}><AppWindow size={14} /> Window</button>
+                    <button className={value.kind === 'region' ? 'active' : ''} disabled={disabled} onClick={() => setKind('region')}><Crop size={14} /> Region</button>
+                </div>
+                <button className="icon-btn" title="Refresh monitors and windows" onClick={refresh}><RefreshCw size={16} /></button>
+            </div>
+
+            {value.kind !== 'window' && (
+                <div className="source-grid">
+                    {monitors.map(m => (
+                        <SourceTile
+                            key={m.index}
+                            thumbnail={m.thumbnail}
+                            label={m.label}
+                            detail={`${m.width}x${m.height}${m.primary ? ' · primary' : ''}`}
+                            selected={selectedMonitor === m.index}
+                            disabled={disabled}
+                            onClick={() => onChange({ ...value, monitor: m.index } as CaptureSource)}
+                        />
+                    ))}
+                    {sources && monitors.length === 0 && <div className="clip-meta">No monitors found.</div>}
+                </div>
+            )}
+
+            {value.kind === 'window' && (
+                <div className="source-grid">
+                    {/* The configured window may be closed right now; keep showing it */}
+                    {!sources?.windows.some(w => w.id === value.id) && (
+                        <SourceTile thumbnail="" label={value.title || value.id} detail="Not open" selected disabled={disabled} onClick={() => { }} />
+                    )}
+                    {sources?.windows.map(w => (
+                        <SourceTile
+                            key={w.id}
+                            thumbnail={w.thumbnail}
+                            label={w.title}
+                            selected={value.id === w.id}
+                            disabled={disabled}
+                            onClick={() => onChange({ kind: 'window', id: w.id, title: w.title })}
+                        />
+                    ))}
+                </div>
+            )}
+
+            {value.kind === 'region' && (
+                <div className="flex-row" style={{ alignItems: 'flex-start' }}>
+                    <div className="region-fields">
+                        {(['x', 'y', 'width', 'height'] as const).map(key => (
+                            <div key={key} className="control-group">
+                                <label className="control-label">{key === 'x' ? 'Left' : key === 'y' ? 'Top' : key === 'width' ? 'Width' : 'Height'}</label>
+                                <input
+                                    type="number"
+                                    min={key === 'width' || key === 'height' ? 16 : 0}
+                                    disabled={disabled}
+                                    value={Number.isNaN(value[key]) ? '' : value[key]}
+                                    onChange={(e) => updateRegion(key, e.target.value)}
+                                />
+                            </div>
+                        ))}
+                    </div>
+                    {monitors[value.monitor] && <RegionPreview monitor={monitors[value.monitor]} region={value} />}
+                </div>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,47 @@
+import React from 'react';
+import { AlertTriangle } from 'lucide-react';
+import { RecorderStats } from '../shared/stats';
+
+export function formatBytes(bytes: number) {
+    const mb = bytes / (1024 * 1024);
+    return mb >= 1024 ? (mb / 1024).toFixed(2) + ' GB' : Math.round(mb) + ' MB';
+}
+
+export function formatSeconds(seconds: number) {
+    const total = Math.floor(seconds);
+    return `${Math.floor(total / 60)}:${(total % 60).toString().padStart(2, '0')}`;
+}
+
+function Stat({ label, value, bad }: { label: string, value: string, bad?: boolean }) {
+    return (
+        <div className={`stat-tile ${bad ? 'bad' : ''}`}>
+            <div className="stat-value">{value}</div>
+            <div className="stat-label">{label}</div>
+        </div>
+    );
+}
+
+export default function StatsPanel({ stats, bufferTime }: { stats: RecorderStats | null, bufferTime: number }) {
+    if (!stats) {
+        return <div className="stats-grid stats-waiting">Waiting for the encoder...</div>;
+    }
+    const warned = (kind: string) => stats.warnings.some(w => w.kind === kind);
+
+    return (
+        <div>
+            <div className="stats-grid">
+                <Stat label={`FPS (target ${stats.targetFps})`} value={stats.fps.toFixed(1)} bad={warned('fps')} />
+                <Stat label="Speed" value={stats.speed !== null ? `${stats.speed.toFixed(2)}x` : '—'} bad={warned('slow')} />
+                <Stat label="Bitrate" value={stats.bitrateKbps !== null ? `${(stats.bitrateKbps / 1000).toFixed(1)} Mbps` : '—'} />
+                <Stat label="Dropped / Duplicated" value={`${stats.droppedFrames} / ${stats.duplicatedFrames}`} bad={warned('dropped')} />
+                <Stat label={`Buffered (of ${formatSeconds(bufferTime)})`} value={formatSeconds(stats.bufferedSeconds)} />
+                <Stat label="Buffer Size" value={formatBytes(stats.bufferedBytes)} />
+            </div>
+            {stats.warnings.map(w => (
+                <div key={w.kind} className="encoder-warning">
+                    <AlertTriangle size={14} style={{ display: 'inline', marginBottom: '-2px' }} /> {w.message}
+                </div>
+            ))}
+        </div>
+    );
+}
@@ -0,0 +1,168 @@
+import React, { useState, useRef } from 'react';
+import { ArrowLeft, Play, Pause, Scissors, Bookmark } from 'lucide-react';
+import { ClipInfo } from '../shared/clips';
+
+function formatTimecode(seconds: number) {
+    const m = Math.floor(seconds / 60);
+    const s = seconds - m * 60;
+    return `${m}:${s.toFixed(3).padStart(6, '0')}`;
+}
+
+export default function TrimView({ clip, startAt = 0, onClose }: { clip: ClipInfo, startAt?: number, onClose: () => void }) {
+    const videoRef = useRef<HTMLVideoElement>(null);
+    // Changing the query string forces a reload after a failed overwrite released the file
+    const [src, setSrc] = useState(`clip://media/${encodeURIComponent(clip.name)}`);
+    const [duration, setDuration] = useState(0);
+    const [current, setCurrent] = useState(0);
+    const [isPlaying, setIsPlaying] = useState(false);
+    const [inPoint, setInPoint] = useState(0);
+    const [outPoint, setOutPoint] = useState(0);
+    const [accurate, setAccurate] = useState(false);
+    const [overwrite, setOverwrite] = useState(false);
+    const [isSaving, setIsSaving] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const seek = (time: number) => {
+        if (videoRef.current) videoRef.current.currentTime = time;
+        setCurrent(time);
+    };
+
+    const togglePlay = () => {
+        const video = videoRef.current;
+        if (!video) return;
+        if (video.paused) {
+            // Restart from the in point when the playhead is outside the selection
+            if (video.currentTime < inPoint || video.currentTime >= outPoint) video.currentTime = inPoint;
+            video.play();
+        } else {
+            video.pause();
+        }
+    };
+
+    const handleTimeUpdate = () => {
+        const video = videoRef.current;
+        if (!video) return;
+        setCurrent(video.currentTime);
+        // Playback previews the selection only
+        if (!video.paused && video.currentTime >= outPoint) video.pause();
+    };
+
+    const markIn = () => setInPoint(Math.min(current, outPoint - 0.1));
+    const markOut = () => setOutPoint(Math.max(current, inPoint + 0.1));
+
+    const handleKeyDown = (e: React.KeyboardEvent) => {
+        if ((e.target as HTMLElement).tagName === 'INPUT' && (e.target as HTMLInputElement).type !== 'range') return;
+        if (e.key === 'i') markIn();
+        else if (e.key === 'o') markOut();
+        else if (e.key === ' ') { e.preventDefault(); togglePlay(); }
+    };
+
+    const save = async () => {
+        setIsSaving(true);
+        setError(null);
+        // Release the file handle held by <video>, otherwise Windows refuses to replace it
+        if (overwrite && videoRef.current) {
+            videoRef.current.pause();
+            videoRef.current.removeAttribute('src');
+            videoRef.current.load();
+        }
+        try {
+            await window.api.trimClip(clip.name, { start: inPoint, end: outPoint, overwrite, accurate });
+            onClose();
+        } catch (e) {
+            setError((e as Error).message.replace(/^Error invoking remote method '[^']+': (Error: )?/, ''));
+            setSrc(`clip://media/${encodeURIComponent(clip.name)}?t=${Date.now()}`);
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const pct = (t: number) => duration ? `${(t / duration) * 100}%` : '0%';
+
+    return (
+        <div className="animate-in glass-card" tabIndex={-1} onKeyDown={handleKeyDown} style={{ outline: 'none' }}>
+            <h2 className="card-title delay-1 animate-in" style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+                <span style={{ display: 'flex', alignItems: 'center', gap: '12px' }}><Scissors /> Trim Clip</span>
+                <button className="btn-secondary" onClick={onClose} disabled={isSaving}><ArrowLeft size={14} /> Back</button>
+            </h2>
+
+            <div className="clip-title" style={{ marginBottom: '12px' }}>{clip.title}</div>
+
+            <video
+                ref={videoRef}
+                className="trim-video"
+                src={src}
+                onLoadedMetadata={(e) => {
+                    const d = e.currentTarget.duration;
+                    setDuration(d);
+                    if (outPoint === 0) {
+                        setOutPoint(d);
+                        if (startAt > 0) seek(Math.min(startAt, d));
+                    }
+                }}
+                onTimeUpdate={handleTimeUpdate}
+                onPlay={() => setIsPlaying(true)}
+                onPause={() => setIsPlaying(false)}
+                onClick={togglePlay}
+            />
+
+            <div className="trim-track">
+                <div className="trim-selection" style={{ left: pct(inPoint), width: `calc(${pct(outPoint)} - ${pct(inPoint)})` }} />
+                {clip.bookmarks.map((b, i) => (
+                    <div key={i} className="trim-bookmark" style={{ left: pct(b.time) }} title={b.label} />
+                ))}
+                <input
+                    type="range"
+                    min="0"
+                    max={duration || 0}
+                    step="0.01"
+                    value={current}
+                    onChange={(e) => seek(parseFloat(e.target.value))}
+                />
+            </div>
+
+            <div className="flex-row" style={{ alignItems: 'center', marginTop: '12px' }}>
+                <button className="icon-btn" onClick={togglePlay} title="Play selection (Space)" style={{ height: '38px' }}>
+                    {isPlaying ? <Pause size={16} /> : <Play size={16} />}
+                </button>
+                <span className="clip-meta" style={{ fontSize: '13px' }}>{formatTimecode(current)} / {formatTimecode(duration)}</span>
+                <div className="flex-1" />
+                <button className="btn-secondary" onClick={markIn}>Set In (I) · {formatTimecode(inPoint)}</button>
+                <button className="btn-secondary" onClick={markOut}>Set Out (O) · {formatTimecode(outPoint)}</button>
+            </div>
+
+            {clip.bookmarks.length > 0 && (
+                <div className="bookmark-list" style={{ marginTop: '12px' }}>
+                    {clip.bookmarks.map((b, i) => (
+                        <button key={i} className="bookmark-chip" onClick={() => seek(b.time)}>
+                            <Bookmark size={12} /> {b.label} · {formatTimecode(b.time)}
+                        </button>
+                    ))}
+                </div>
+            )}
+
+            <div className="flex-row" style={{ marginTop: '24px' }}>
+                <div className="control-group flex-1">
+                    <label className="control-label">Save Mode</label>
+                    <select value={overwrite ? 'overwrite' : 'new'} onChange={(e) => setOverwrite(e.target.value === 'overwrite')}>
+                        <option value="new">Save as new clip</option>
+                        <option value="overwrite">Overwrite original</option>
+                    </select>
+                </div>
+                <div className="control-group flex-1">
+                    <label className="control-label">Cut Precision</label>
+                    <select value={accurate ? 'accurate' : 'keyframe'} onChange={(e) => setAccurate(e.target.value === 'accurate')}>
+                        <option value="keyframe">Lossless (snaps to keyframe)</option>
+                        <option value="accurate">Frame-accurate (re-encodes first GOP)</option>
+                    </select>
+                </div>
+            </div>
+
+            {error && <div className="clip-error" style={{ marginBottom: '12px', fontSize: '13px' }}>{error}</div>}
+
+            <button className="btn-primary" onClick={save} disabled={isSaving || duration === 0} style={{ opacity: isSaving ? 0.5 : 1 }}>
+                <Scissors /> {isSaving ? 'Saving...' : `Save ${formatTimecode(outPoint - inPoint)} Clip`}
+            </button>
+        </div>
+    );
+}
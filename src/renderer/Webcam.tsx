@@ -0,0 +1,116 @@
+import React, { useState, useEffect } from 'react';
+import { RefreshCw } from 'lucide-react';
+import { Config, ConfigChange, WebcamCorner, WebcamLayout } from '../shared/config';
+import { CameraInfo } from '../shared/capture';
+
+const CORNERS: { value: WebcamCorner, label: string }[] = [
+    { value: 'top-left', label: 'Top left' },
+    { value: 'top-right', label: 'Top right' },
+    { value: 'bottom-left', label: 'Bottom left' },
+    { value: 'bottom-right', label: 'Bottom right' }
+];
+
+// The preview stands in for a 1920x1080 capture with a 4:3 camera; the recorder keeps the
+// camera's real aspect ratio
+const FRAME_WIDTH = 1920;
+const FRAME_HEIGHT = 1080;
+const MARGIN = 16;
+
+// Where the overlay lands in the frame, drawn to scale
+function PipPreview({ layout, off }: { layout: WebcamLayout, off: boolean }) {
+    const width = FRAME_WIDTH * layout.webcamSize / 100 + layout.webcamBorder * 2;
+    const height = FRAME_WIDTH * layout.webcamSize / 100 * 3 / 4 + layout.webcamBorder * 2;
+    const x = (v: number) => `${(v / FRAME_WIDTH) * 100}%`;
+    const y = (v: number) => `${(v / FRAME_HEIGHT) * 100}%`;
+    const [vertical, horizontal] = layout.webcamCorner.split('-') as ['top' | 'bottom', 'left' | 'right'];
+
+    return (
+        <div className="pip-preview" style={{ opacity: off ? 0.5 : 1 }}>
+            <div
+                className="pip-camera"
+                style={{
+                    [vertical]: y(MARGIN),
+                    [horizontal]: x(MARGIN),
+                    width: x(width),
+                    height: y(height),
+                    // At least a hairline, so a thin border still shows at this scale
+                    borderWidth: layout.webcamBorder > 0 ? Math.max(1, Math.round(layout.webcamBorder / 4)) : 0,
+                    opacity: layout.webcamOpacity / 100
+                }}
+            />
+        </div>
+    );
+}
+
+// Settings section: the camera composited over the capture, and where it goes
+export default function WebcamSettings({ config, disabled, onChange }: { config: Config, disabled: boolean, onChange: ConfigChange }) {
+    const [cameras, setCameras] = useState<CameraInfo[] | null>(null);
+
+    const refresh = () => {
+        if (window.api) window.api.getCameras().then(setCameras).catch(() => setCameras([]));
+    };
+
+    useEffect(refresh, [config.captureBackend]);
+
+    const off = config.webcamDevice === 'None';
+    const missing = !off && cameras !== null && !cameras.some(c => c.id === config.webcamDevice);
+
+    return (
+        <div className="flex-row" style={{ alignItems: 'flex-start' }}>
+            <div className="webcam-fields">
+                <div className="hotkey-row">
+                    <select className="flex-1" disabled={disabled} value={config.webcamDevice} onChange={(e) => onChange('webcamDevice', e.target.value)}>
+                        <option value="None">None</option>
+                        {/* The configured camera may be unplugged right now; keep showing it */}
+                        {missing && <option value={config.webcamDevice}>{config.webcamDevice} (not connected)</option>}
+                        {cameras?.map(c => <option key={c.id} value={c.id}>{c.label}</option>)}
+                    </select>
+                    <button className="icon-btn" title="Refresh cameras" onClick={refresh}><RefreshCw size={16} /></button>
+                </div>
+
+                <div className="flex-row">
+                    <div className="control-group flex-1">
+                        <label className="control-label">Corner</label>
+                        <select disabled={disabled || off} value={config.webcamCorner} onChange={(e) => onChange('webcamCorner', e.target.value as WebcamCorner)}>
+                            {CORNERS.map(c => <option key={c.value} value={c.value}>{c.label}</option>)}
+                        </select>
+                    </div>
+                    <div className="control-group flex-1">
+                        <label className="control-label">Border (px)</label>
+                        <input
+                            type="number" min="0" max="20"
+                            disabled={disabled || off}
+                            value={Number.isNaN(config.webcamBorder) ? '' : config.webcamBorder}
+                            onChange={(e) => onChange('webcamBorder', e.target.value === '' ? NaN : Number(e.target.value))}
+                        />
+                    </div>
+                </div>
+
+                <label className="control-label" style={{ display: 'flex', justifyContent: 'space-between' }}>
+                    <span>Size</span>
+                    <span style={{ color: 'var(--accent-primary)' }}>{config.webcamSize}% of width</span>
+                </label>
+                <input
+                    type="range" min="5" max="50" step="1"
+                    disabled={disabled || off}
+                    value={config.webcamSize}
+                    onChange={(e) => onChange('webcamSize', Number(e.target.value))}
+                    style={{ accentColor: 'var(--accent-primary)' }}
+                />
+
+                <label className="control-label" style={{ display: 'flex', justifyContent: 'space-between' }}>
+                    <span>Opacity</span>
+                    <span style={{ color: 'var(--accent-primary)' }}>{config.webcamOpacity}%</span>
+                </label>
+                <input
+                    type="range" min="10" max="100" step="5"
+                    disabled={disabled || off}
+                    value={config.webcamOpacity}
+                    onChange={(e) => onChange('webcamOpacity', Number(e.target.value))}
+                    style={{ accentColor: 'var(--accent-primary)' }}
+                />
+            </div>
+            <PipPreview layout={config} off={off} />
+        </div>
+    );
+}
@@ -0,0 +1,22 @@
+// Shared between the main process and the renderer
+
+export type AudioSourceId = 'system' | 'microphone';
+
+// Peak level of each recorded source over the last ~100 ms, in dBFS after its gain and
+// filters. Sources that aren't being recorded are missing.
+export type AudioLevels = Partial<Record<AudioSourceId, number>>;
+
+// Reported for digital silence instead of -Infinity
+export const SILENCE_DB = -100;
+
+// What the recordings get from the microphone. 'push-to-talk': muted until the key is held,
+// 'talking': it's held; 'off': no microphone is recorded.
+export type MicState = 'off' | 'live' | 'muted' | 'push-to-talk' | 'talking';
+
+export const MIC_STATE_LABELS: Record<MicState, string> = {
+    off: 'Microphone off',
+    live: 'Microphone live',
+    muted: 'Microphone muted',
+    'push-to-talk': 'Push-to-talk',
+    talking: 'Talking'
+};
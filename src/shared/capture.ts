@@ -0,0 +1,31 @@
+// Shared between the main process and the renderer
+
+export interface MonitorInfo {
+    // Position in OS enumeration order; what CaptureSource.monitor refers to
+    index: number;
+    label: string;
+    // Physical pixels
+    width: number;
+    height: number;
+    primary: boolean;
+    // JPEG data URL, empty when the OS didn't provide one
+    thumbnail: string;
+}
+
+export interface WindowInfo {
+    // Native handle (HWND on Windows, XID on Linux) as a string
+    id: string;
+    title: string;
+    thumbnail: string;
+}
+
+export interface CameraInfo {
+    // What the backend opens: a DirectShow device name, or a /dev/video* path
+    id: string;
+    label: string;
+}
+
+export interface CaptureSourceList {
+    monitors: MonitorInfo[];
+    windows: WindowInfo[];
+}
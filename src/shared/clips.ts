@@ -0,0 +1,28 @@
+// Shared between the main process and the renderer
+
+export interface ClipInfo {
+    name: string;
+    // Name without the ShadowWarp_<Kind>_ prefix and extension; what rename edits
+    title: string;
+    size: number;
+    modified: number;
+    // From the clip's .bookmarks.json sidecar, in time order
+    bookmarks: ClipBookmark[];
+    // Protected from retention clean-up
+    starred: boolean;
+}
+
+// A moment marked while recording; also written into the MP4 as a chapter
+export interface ClipBookmark {
+    // Seconds from the start of the clip
+    time: number;
+    label: string;
+}
+
+export interface ClipProbe {
+    duration: number;
+    width: number;
+    height: number;
+    videoCodec: string;
+    audioCodec: string | null;
+}
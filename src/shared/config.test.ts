@@ -0,0 +1,146 @@
+import { describe, it, expect } from 'vitest';
+import { migrateConfig, validateConfig, CONFIG_VERSION, DEFAULT_CONFIG, DEFAULT_PRESET_SETTINGS } from './config';
+
+describe('migrateConfig', () => {
+    it('upgrades an unversioned config all the way', () => {
+        const notices: string[] = [];
+        const c = migrateConfig({ fps: '30', bitrate: '12', bufferTime: '120', shortcut: 'CommandOrControl+Shift+S', codec: 'libx264' }, notices);
+
+        expect(c.version).toBe(CONFIG_VERSION);
+        expect(c.shortcut).toBeUndefined();
+        expect(c.hotkeys).toEqual([{ keys: 'Ctrl+Shift+KeyS', action: 'save-replay', seconds: 0 }]);
+        expect(c.activePreset).toBe('default');
+        expect(c.presets).toEqual([{
+            id: 'default',
+            name: 'Default',
+            ...DEFAULT_PRESET_SETTINGS,
+            fps: 30,
+            bitrate: 12,
+            bufferTime: 120,
+            codec: 'libx264',
+            outputResolution: 'native'
+        }]);
+        expect(notices).toEqual([]);
+        expect(validateConfig(c).errors).toEqual({});
+    });
+
+    it('keeps hotkeys that already exist over the old shortcut', () => {
+        const hotkeys = [{ keys: 'F9', action: 'mark', seconds: 0 }];
+        const c = migrateConfig({ shortcut: 'Alt+F10', hotkeys });
+        expect(c.hotkeys).toEqual(hotkeys);
+    });
+
+    it('only runs the steps newer than the file', () => {
+        // A version 2 file with presets already in place and a preset field at the top level
+        const c = migrateConfig({ version: 2, fps: '30', presets: [{ id: 'a', name: 'A' }, null] });
+        expect(c.fps).toBe('30');
+        expect(c.presets).toEqual([{ id: 'a', name: 'A', outputResolution: 'native' }, null]);
+    });
+
+    it('leaves a preset\'s own output resolution alone', () => {
+        const c = migrateConfig({ version: 2, presets: [{ id: 'a', name: 'A', outputResolution: '720p' }] });
+        expect(c.presets[0].outputResolution).toBe('720p');
+    });
+
+    it('clears unusable and repeated hotkeys with a notice', () => {
+        const notices: string[] = [];
+        const c = migrateConfig({
+            version: 3,
+            hotkeys: [
+                { keys: 'Ctrl+S', action: 'save-replay', seconds: 0 },
+                { keys: 'Control+s', action: 'save-replay', seconds: 30 },
+                { keys: 'Hyper+Q', action: 'mark', seconds: 0 },
+                { keys: '', action: 'mark', seconds: 0 }
+            ]
+        }, notices);
+
+        expect(c.hotkeys.map((h: any) => h.keys)).toEqual(['Ctrl+KeyS', '', '', '']);
+        expect(notices).toHaveLength(1);
+        expect(notices[0]).toContain('Cleared hotkeys Hyper+Q, Ctrl+S');
+    });
+
+    it('starts from nothing when the file isn\'t an object', () => {
+        for (const raw of [null, 'text', 5]) {
+            const c = migrateConfig(raw);
+            expect(c.version).toBe(CONFIG_VERSION);
+            expect(validateConfig(c).errors).toEqual({});
+        }
+    });
+
+    it('doesn\'t modify its input', () => {
+        const raw = { version: 0, fps: '30' };
+        migrateConfig(raw);
+        expect(raw).toEqual({ version: 0, fps: '30' });
+    });
+});
+
+describe('validateConfig', () => {
+    it('fills in defaults for missing fields', () => {
+        expect(validateConfig({})).toEqual({ config: DEFAULT_CONFIG, errors: {} });
+        expect(validateConfig(null)).toEqual({ config: DEFAULT_CONFIG, errors: {} });
+    });
+
+    it('accepts valid values and drops unknown fields', () => {
+        const { config, errors } = validateConfig({ fps: 144, outputFolder: 'D:\\Clips', surprise: true });
+        expect(errors).toEqual({});
+        expect(config.fps).toBe(144);
+        expect(config.outputFolder).toBe('D:\\Clips');
+        expect(config).not.toHaveProperty('surprise');
+    });
+
+    it('reports invalid fields and keeps their defaults', () => {
+        const { config, errors } = validateConfig({
+            fps: 0,
+            bitrate: 'fast',
+            bufferMode: 'tape',
+            autoStart: 'yes',
+            clipNameTemplate: '{game}_{date}',
+            captureSource: { kind: 'region', monitor: 0, x: 0, y: 0, width: 8, height: 100 }
+        });
+        expect(errors).toEqual({
+            fps: 'must be a whole number from 1 to 240',
+            bitrate: 'must be a number from 1 to 500',
+            bufferMode: 'must be one of: memory, disk',
+            autoStart: 'must be on or off',
+            clipNameTemplate: 'has unknown token {game}',
+            captureSource: 'width must be a whole number from 16 to 16384'
+        });
+        expect(config.fps).toBe(DEFAULT_CONFIG.fps);
+        expect(config.captureSource).toEqual(DEFAULT_CONFIG.captureSource);
+    });
+
+    it('rejects hotkeys that fire on the same input', () => {
+        const { errors } = validateConfig({
+            hotkeys: [
+                { keys: 'Alt+KeyS', action: 'save-replay', seconds: 0 },
+                { keys: 'Alt+KeyS', action: 'mark', seconds: 0, trigger: 'press' }
+            ]
+        });
+        expect(errors.hotkeys).toBe('entry 2: Alt+S is already used by another hotkey');
+    });
+
+    it('allows a hold and a double-tap on the same combo', () => {
+        const { errors } = validateConfig({
+            hotkeys: [
+                { keys: 'F9', action: 'save-replay', seconds: 0, trigger: 'hold', holdMs: 800 },
+                { keys: 'F9', action: 'mark', seconds: 0, trigger: 'double-tap' }
+            ]
+        });
+        expect(errors).toEqual({});
+    });
+
+    it('checks each preset and their ids', () => {
+        const preset = { id: 'a', name: 'A', ...DEFAULT_PRESET_SETTINGS };
+        expect(validateConfig({ presets: [preset, { ...preset, bufferTime: 1 }] }).errors.presets)
+            .toBe('entry 2 "A" bufferTime must be a whole number from 5 to 3600');
+        expect(validateConfig({ presets: [preset, preset] }).errors.presets).toBe('must not repeat an id');
+        expect(validateConfig({ presets: [] }).errors.presets).toBe('must contain at least one preset');
+    });
+
+    it('falls back to the first preset when the active one is missing', () => {
+        const presets = [{ id: 'a', name: 'A', ...DEFAULT_PRESET_SETTINGS }];
+        const { config, errors } = validateConfig({ presets, activePreset: 'gone' });
+        expect(config.activePreset).toBe('a');
+        expect(errors.activePreset).toBe('must name an existing preset');
+    });
+});
@@ -0,0 +1,477 @@
+// Config schema shared by the main process, preload and renderer: the type, defaults,
+// runtime validation and migrations for config.json files written by older versions.
+
+import { DEFAULT_HOTKEYS, HotkeyBinding, normalizeShortcut, parseShortcut, findHotkeyConflicts, shortcutLabel } from './hotkeys';
+import { DEFAULT_ENCODER_FALLBACK } from './encoders';
+import { unknownTokens } from './filenames';
+
+export type CaptureBackendSetting = 'auto' | 'windows' | 'linux' | 'synthetic';
+export type BufferModeSetting = 'memory' | 'disk';
+// 'mixed': one track with every source; 'separate': one track per source;
+// 'separate-mixed': a mixed track first (for players that only read track 1), then one per source
+export type AudioTrackMode = 'mixed' | 'separate' | 'separate-mixed';
+// Downscale target applied before encoding; never upscales
+export type OutputResolution = 'native' | '1440p' | '1080p' | '720p';
+
+export const OUTPUT_HEIGHTS: Record<OutputResolution, number | null> = {
+    native: null,
+    '1440p': 1440,
+    '1080p': 1080,
+    '720p': 720
+};
+
+// Monitors are numbered in the order the OS enumerates them. Regions are in physical
+// pixels relative to the monitor's top-left corner.
+export type CaptureSource =
+    | { kind: 'monitor', monitor: number }
+    | { kind: 'window', id: string, title: string }
+    | { kind: 'region', monitor: number, x: number, y: number, width: number, height: number };
+
+// Where the webcam overlay sits in the frame
+export type WebcamCorner = 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right';
+
+// Re-encodes applied to a saved clip: 'audio' writes the first audio track to .m4a
+export type ExportFormat = 'mp4' | 'webm' | 'gif' | 'audio';
+
+export const EXPORT_EXTENSIONS: Record<ExportFormat, string> = {
+    mp4: 'mp4',
+    webm: 'webm',
+    gif: 'gif',
+    audio: 'm4a'
+};
+
+export interface ExportPreset {
+    id: string;
+    name: string;
+    format: ExportFormat;
+    // MB the file has to fit in, reached with a two-pass encode (mp4 / webm); 0 encodes at constant quality
+    maxSize: number;
+    // Scale down to this height, 0 keeps the clip's; never upscales
+    maxHeight: number;
+    // Frame rate cap, 0 keeps the clip's
+    fps: number;
+    // Run on every saved replay
+    auto: boolean;
+}
+
+export interface Config {
+    version: number;
+    fps: number;
+    codec: string;
+    // Encoders tried in order when `codec` doesn't work on this machine
+    encoderFallback: string[];
+    // Mbps
+    bitrate: number;
+    // Seconds
+    bufferTime: number;
+    outputFolder: string;
+    hotkeys: HotkeyBinding[];
+    autoStart: boolean;
+    autoRecord: boolean;
+    audioDevice: string;
+    systemAudioDevice: string;
+    captureBackend: CaptureBackendSetting;
+    bufferMode: BufferModeSetting;
+    audioTrackMode: AudioTrackMode;
+    outputResolution: OutputResolution;
+    captureSource: CaptureSource;
+    // Named snapshots of the capture settings above; the active one is kept in step with them
+    presets: CapturePreset[];
+    activePreset: string;
+    // Localhost HTTP/WebSocket control API; the token is generated when it's first enabled
+    controlApiEnabled: boolean;
+    controlApiPort: number;
+    controlApiToken: string;
+    // Session recording: seconds taken from the replay buffer when it starts, and when to
+    // start a new file (MB / minutes, 0 = never)
+    sessionPreRoll: number;
+    sessionSplitSize: number;
+    sessionSplitMinutes: number;
+    // Clip retention, applied after every save: total GB, age in days and number of clips to keep
+    // (0 = no limit). Starred clips are never removed.
+    retentionMaxSize: number;
+    retentionMaxAge: number;
+    retentionKeepNewest: number;
+    // Warn when a save leaves less than this many GB free on either disk it writes to
+    lowSpaceWarning: number;
+    exportPresets: ExportPreset[];
+    // Where new clips go inside outputFolder and what they're called; see CLIP_NAME_TOKENS
+    clipFolderTemplate: string;
+    clipNameTemplate: string;
+    // Replay saves allowed to run at once; 1 runs them strictly in order
+    saveConcurrency: number;
+    // Audio mixer: gain in percent (100 = unchanged) and mute per source, and the microphone's filters.
+    // Mutes apply live; the rest restarts the recorder.
+    systemVolume: number;
+    systemMuted: boolean;
+    micVolume: number;
+    micMuted: boolean;
+    micNoiseSuppression: boolean;
+    micNoiseGate: boolean;
+    micCompressor: boolean;
+    micHighPass: boolean;
+    // Camera composited over the capture ('None' for no overlay): its corner, width as a percentage
+    // of the frame's, border in pixels and opacity in percent
+    webcamDevice: string;
+    webcamCorner: WebcamCorner;
+    webcamSize: number;
+    webcamBorder: number;
+    webcamOpacity: number;
+}
+
+// Capture settings a preset stores. The live values stay top-level in Config so the
+// recorder reads one place; switching presets copies these fields over.
+export const PRESET_FIELDS = ['fps', 'codec', 'bitrate', 'bufferTime', 'bufferMode', 'audioTrackMode', 'outputResolution'] as const;
+
+// Settings that go into the recorder's audio filter graph
+export const MIXER_FIELDS = [
+    'systemVolume', 'micVolume', 'micNoiseSuppression', 'micNoiseGate', 'micCompressor', 'micHighPass'
+] as const;
+export type MixerSettings = Pick<Config, typeof MIXER_FIELDS[number]>;
+
+export const WEBCAM_FIELDS = ['webcamDevice', 'webcamCorner', 'webcamSize', 'webcamBorder', 'webcamOpacity'] as const;
+export type WebcamLayout = Pick<Config, 'webcamCorner' | 'webcamSize' | 'webcamBorder' | 'webcamOpacity'>;
+
+export type PresetSettings = Pick<Config, typeof PRESET_FIELDS[number]>;
+
+export interface CapturePreset extends PresetSettings {
+    id: string;
+    name: string;
+}
+
+// How settings sections in the renderer report a changed field
+export type ConfigChange = <K extends keyof Config>(key: K, value: Config[K]) => void;
+
+// Field name -> human readable problem
+export type ConfigErrors = Partial<Record<keyof Config, string>>;
+
+export type SaveConfigResult =
+    | { ok: true, config: Config }
+    | { ok: false, errors: ConfigErrors };
+
+// Each entry upgrades a config from version i to i + 1. Files written before
+// versioning existed count as version 0.
+// Each step may leave a message in `notices` for a change the user should hear about
+const MIGRATIONS: ((c: any, notices: string[]) => any)[] = [
+    // 0 -> 1: numbers were stored as strings, and a single `shortcut` always saved the whole buffer
+    (c) => {
+        for (const key of ['fps', 'bitrate', 'bufferTime']) {
+            if (typeof c[key] === 'string') c[key] = Number(c[key]);
+        }
+        if (typeof c.shortcut === 'string' && !Array.isArray(c.hotkeys)) {
+            c.hotkeys = [{ keys: c.shortcut, action: 'save-replay', seconds: 0 }];
+        }
+        delete c.shortcut;
+        return c;
+    },
+    // 1 -> 2: the single set of capture settings becomes the "Default" preset
+    (c) => {
+        if (!Array.isArray(c.presets)) {
+            const settings = presetSettings({ ...DEFAULT_PRESET_SETTINGS, ...c });
+            c.presets = [{ id: 'default', name: 'Default', ...settings }];
+            c.activePreset = 'default';
+        }
+        return c;
+    },
+    // 2 -> 3: presets gained an output resolution
+    (c) => {
+        if (Array.isArray(c.presets)) {
+            c.presets = c.presets.map((p: any) => p && typeof p === 'object' ? { outputResolution: 'native', ...p } : p);
+        }
+        return c;
+    },
+    // 3 -> 4: hotkeys name their key by KeyboardEvent.code ("KeyS") instead of the character it
+    // typed ("S"). Combos that never matched anything, and repeats of an earlier binding's combo
+    // (no longer allowed), are cleared so they can be set again.
+    (c, notices) => {
+        if (Array.isArray(c.hotkeys) && c.hotkeys.every((h: any) => h && typeof h === 'object' && typeof h.keys === 'string')) {
+            const cleared: string[] = [];
+            c.hotkeys = c.hotkeys.map((h: any) => {
+                const keys = h.keys && normalizeShortcut(h.keys);
+                if (keys === null) cleared.push(h.keys);
+                return { ...h, keys: keys || '' };
+            });
+            for (const index of findHotkeyConflicts(c.hotkeys).keys()) {
+                cleared.push(shortcutLabel(c.hotkeys[index].keys));
+                c.hotkeys[index].keys = '';
+            }
+            if (cleared.length) {
+                notices.push(`Cleared hotkey${cleared.length > 1 ? 's' : ''} ${cleared.join(', ')}: unusable or already taken by another hotkey. Set them again in Settings.`);
+            }
+        }
+        return c;
+    }
+];
+
+export const CONFIG_VERSION = MIGRATIONS.length;
+
+export const DEFAULT_PRESET_SETTINGS: PresetSettings = {
+    fps: 60,
+    codec: 'h264_nvenc',
+    bitrate: 15,
+    bufferTime: 300,
+    bufferMode: 'memory',
+    audioTrackMode: 'mixed',
+    outputResolution: 'native'
+};
+
+export const DEFAULT_EXPORT_PRESETS: ExportPreset[] = [
+    { id: 'fit-10mb', name: 'MP4 under 10 MB', format: 'mp4', maxSize: 10, maxHeight: 720, fps: 0, auto: false },
+    { id: 'webm', name: 'WebM (VP9 / Opus)', format: 'webm', maxSize: 0, maxHeight: 1080, fps: 0, auto: false },
+    { id: 'gif', name: 'GIF', format: 'gif', maxSize: 0, maxHeight: 480, fps: 15, auto: false },
+    { id: 'audio', name: 'Audio only', format: 'audio', maxSize: 0, maxHeight: 0, fps: 0, auto: false }
+];
+
+export const DEFAULT_CONFIG: Config = {
+    version: CONFIG_VERSION,
+    ...DEFAULT_PRESET_SETTINGS,
+    encoderFallback: DEFAULT_ENCODER_FALLBACK,
+    outputFolder: '',
+    hotkeys: DEFAULT_HOTKEYS,
+    autoStart: false,
+    autoRecord: true,
+    audioDevice: 'Default',
+    systemAudioDevice: 'Default',
+    captureBackend: 'auto',
+    captureSource: { kind: 'monitor', monitor: 0 },
+    presets: [{ id: 'default', name: 'Default', ...DEFAULT_PRESET_SETTINGS }],
+    activePreset: 'default',
+    controlApiEnabled: false,
+    controlApiPort: 17320,
+    controlApiToken: '',
+    sessionPreRoll: 0,
+    sessionSplitSize: 0,
+    sessionSplitMinutes: 0,
+    retentionMaxSize: 0,
+    retentionMaxAge: 0,
+    retentionKeepNewest: 0,
+    lowSpaceWarning: 5,
+    exportPresets: DEFAULT_EXPORT_PRESETS,
+    clipFolderTemplate: '',
+    clipNameTemplate: 'ShadowWarp_{kind}_{date}_{time}',
+    saveConcurrency: 1,
+    systemVolume: 100,
+    systemMuted: false,
+    micVolume: 100,
+    micMuted: false,
+    micNoiseSuppression: false,
+    micNoiseGate: false,
+    micCompressor: false,
+    micHighPass: false,
+    webcamDevice: 'None',
+    webcamCorner: 'bottom-right',
+    webcamSize: 20,
+    webcamBorder: 2,
+    webcamOpacity: 100
+};
+
+export function presetSettings(source: PresetSettings): PresetSettings {
+    const settings = {} as PresetSettings;
+    for (const key of PRESET_FIELDS) (settings as any)[key] = source[key];
+    return settings;
+}
+
+// "Name", then "Name (2)", "Name (3)"... whichever isn't taken
+export function uniquePresetName(name: string, presets: { name: string }[]) {
+    const base = name.trim() || 'Preset';
+    let candidate = base;
+    for (let n = 2; presets.some(p => p.name === candidate); n++) candidate = `${base} (${n})`;
+    return candidate;
+}
+
+export function newPresetId() {
+    return `preset_${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+}
+
+// 32 hex characters from the platform CSPRNG, available in both Node and the renderer
+export function newControlToken() {
+    const bytes = new Uint8Array(16);
+    globalThis.crypto.getRandomValues(bytes);
+    return Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('');
+}
+
+// A validator returns an error message, or null when the value is acceptable
+type Validator = (value: unknown) => string | null;
+
+const isString: Validator = (v) => typeof v === 'string' ? null : 'must be text';
+const isBoolean: Validator = (v) => typeof v === 'boolean' ? null : 'must be on or off';
+const nonEmpty: Validator = (v) => typeof v === 'string' && v.length > 0 ? null : 'must not be empty';
+
+const integer = (min: number, max: number): Validator => (v) =>
+    Number.isInteger(v) && (v as number) >= min && (v as number) <= max ? null : `must be a whole number from ${min} to ${max}`;
+
+const number = (min: number, max: number): Validator => (v) =>
+    typeof v === 'number' && v >= min && v <= max ? null : `must be a number from ${min} to ${max}`;
+
+const template: Validator = (v) => {
+    if (typeof v !== 'string') return 'must be text';
+    const unknown = unknownTokens(v);
+    return unknown.length ? `has unknown ${unknown.length === 1 ? 'token' : 'tokens'} ${unknown.map(t => `{${t}}`).join(', ')}` : null;
+};
+
+const oneOf = (...values: string[]): Validator => (v) =>
+    values.includes(v as string) ? null : `must be one of: ${values.join(', ')}`;
+
+const listOf = (item: Validator): Validator => (v) => {
+    if (!Array.isArray(v)) return 'must be a list';
+    for (let i = 0; i < v.length; i++) {
+        const error = item(v[i]);
+        if (error) return `entry ${i + 1} ${error}`;
+    }
+    return null;
+};
+
+const hotkeyAction = oneOf('save-replay', 'switch-preset', 'mark', 'toggle-session', 'push-to-talk', 'toggle-mic');
+const hotkeyTrigger = oneOf('press', 'hold', 'double-tap');
+
+const hotkeyBinding: Validator = (v) => {
+    const b = v as HotkeyBinding;
+    if (!b || typeof b !== 'object') return 'must be a hotkey binding';
+    return isString(b.keys) && 'keys must be text'
+        || b.keys && !parseShortcut(b.keys) && `keys "${b.keys}" are not a key combination`
+        || hotkeyAction(b.action) && `action ${hotkeyAction(b.action)}`
+        || b.trigger !== undefined && hotkeyTrigger(b.trigger) && `trigger ${hotkeyTrigger(b.trigger)}`
+        || b.trigger === 'hold' && integer(100, 10000)(b.holdMs) && `hold time ${integer(100, 10000)(b.holdMs)}`
+        || integer(0, 86400)(b.seconds) && `length ${integer(0, 86400)(b.seconds)}`
+        || b.action === 'switch-preset' && nonEmpty(b.preset) && `preset ${nonEmpty(b.preset)}`
+        || b.label !== undefined && isString(b.label) && 'label must be text';
+};
+
+// Every binding valid, and no two firing on the same input
+const hotkeyList: Validator = (v) => {
+    const error = listOf(hotkeyBinding)(v);
+    if (error) return error;
+    const [conflict] = findHotkeyConflicts(v as HotkeyBinding[]);
+    return conflict ? `entry ${conflict[0] + 1}: ${conflict[1]}` : null;
+};
+
+const PRESET_SCHEMA: Record<keyof PresetSettings, Validator> = {
+    fps: integer(1, 240),
+    codec: nonEmpty,
+    bitrate: number(1, 500),
+    bufferTime: integer(5, 3600),
+    bufferMode: oneOf('memory', 'disk'),
+    audioTrackMode: oneOf('mixed', 'separate', 'separate-mixed'),
+    outputResolution: oneOf(...Object.keys(OUTPUT_HEIGHTS))
+};
+
+// A parsed JSON object, whose fields still need checking
+export function isRecord(v: unknown): v is Record<string, unknown> {
+    return typeof v === 'object' && v !== null && !Array.isArray(v);
+}
+
+const captureSource: Validator = (s) => {
+    if (!isRecord(s)) return 'must be a capture source';
+    switch (s.kind) {
+        case 'monitor':
+            return integer(0, 15)(s.monitor) && `monitor ${integer(0, 15)(s.monitor)}`;
+        case 'window':
+            return nonEmpty(s.id) && `window ${nonEmpty(s.id)}` || isString(s.title) && 'window title must be text';
+        case 'region':
+            return integer(0, 15)(s.monitor) && `monitor ${integer(0, 15)(s.monitor)}`
+                || integer(0, 16384)(s.x) && `x ${integer(0, 16384)(s.x)}`
+                || integer(0, 16384)(s.y) && `y ${integer(0, 16384)(s.y)}`
+                || integer(16, 16384)(s.width) && `width ${integer(16, 16384)(s.width)}`
+                || integer(16, 16384)(s.height) && `height ${integer(16, 16384)(s.height)}`;
+    }
+    return 'must be a monitor, window or region';
+};
+
+const exportPreset: Validator = (v) => {
+    const p = v as ExportPreset;
+    if (!p || typeof p !== 'object') return 'must be an export preset';
+    const format = oneOf(...Object.keys(EXPORT_EXTENSIONS));
+    return nonEmpty(p.id) && `id ${nonEmpty(p.id)}`
+        || nonEmpty(p.name) && `name ${nonEmpty(p.name)}`
+        || format(p.format) && `"${p.name}" format ${format(p.format)}`
+        || number(0, 100000)(p.maxSize) && `"${p.name}" size limit ${number(0, 100000)(p.maxSize)}`
+        || integer(0, 4320)(p.maxHeight) && `"${p.name}" height ${integer(0, 4320)(p.maxHeight)}`
+        || integer(0, 240)(p.fps) && `"${p.name}" frame rate ${integer(0, 240)(p.fps)}`
+        || isBoolean(p.auto) && `"${p.name}" auto ${isBoolean(p.auto)}`;
+};
+
+export const capturePreset: Validator = (v) => {
+    const p = v as CapturePreset;
+    if (!p || typeof p !== 'object') return 'must be a preset';
+    if (nonEmpty(p.id)) return `id ${nonEmpty(p.id)}`;
+    if (nonEmpty(p.name)) return `name ${nonEmpty(p.name)}`;
+    for (const key of PRESET_FIELDS) {
+        const error = PRESET_SCHEMA[key](p[key]);
+        if (error) return `"${p.name}" ${key} ${error}`;
+    }
+    return null;
+};
+
+const SCHEMA: Record<keyof Config, Validator> = {
+    version: integer(0, CONFIG_VERSION),
+    ...PRESET_SCHEMA,
+    encoderFallback: listOf(nonEmpty),
+    outputFolder: isString,
+    hotkeys: hotkeyList,
+    autoStart: isBoolean,
+    autoRecord: isBoolean,
+    audioDevice: nonEmpty,
+    systemAudioDevice: nonEmpty,
+    captureBackend: oneOf('auto', 'windows', 'linux', 'synthetic'),
+    captureSource,
+    presets: (v) => listOf(capturePreset)(v)
+        || (v as CapturePreset[]).length === 0 && 'must contain at least one preset'
+        || new Set((v as CapturePreset[]).map(p => p.id)).size !== (v as CapturePreset[]).length && 'must not repeat an id',
+    activePreset: nonEmpty,
+    controlApiEnabled: isBoolean,
+    controlApiPort: integer(1024, 65535),
+    controlApiToken: isString,
+    sessionPreRoll: integer(0, 3600),
+    sessionSplitSize: integer(0, 1024 * 1024),
+    sessionSplitMinutes: integer(0, 24 * 60),
+    retentionMaxSize: number(0, 1024 * 1024),
+    retentionMaxAge: integer(0, 3650),
+    retentionKeepNewest: integer(0, 100000),
+    lowSpaceWarning: number(0, 1024),
+    exportPresets: (v) => listOf(exportPreset)(v)
+        || new Set((v as ExportPreset[]).map(p => p.id)).size !== (v as ExportPreset[]).length && 'must not repeat an id',
+    clipFolderTemplate: template,
+    clipNameTemplate: (v) => nonEmpty(v) || template(v),
+    saveConcurrency: integer(1, 4),
+    systemVolume: integer(0, 200),
+    systemMuted: isBoolean,
+    micVolume: integer(0, 200),
+    micMuted: isBoolean,
+    micNoiseSuppression: isBoolean,
+    micNoiseGate: isBoolean,
+    micCompressor: isBoolean,
+    micHighPass: isBoolean,
+    webcamDevice: nonEmpty,
+    webcamCorner: oneOf('top-left', 'top-right', 'bottom-left', 'bottom-right'),
+    webcamSize: integer(5, 50),
+    webcamBorder: integer(0, 20),
+    webcamOpacity: integer(10, 100)
+};
+
+// Brings a parsed config file of any older version up to CONFIG_VERSION. Changes the user should
+// be told about are added to `notices`.
+export function migrateConfig(raw: any, notices: string[] = []): any {
+    let c = raw && typeof raw === 'object' ? { ...raw } : {};
+    const from = Number.isInteger(c.version) ? c.version : 0;
+    for (let v = from; v < CONFIG_VERSION; v++) c = MIGRATIONS[v](c, notices);
+    c.version = CONFIG_VERSION;
+    return c;
+}
+
+// Checks every known field. Invalid or missing fields fall back to their defaults in the
+// returned config and are listed in `errors`; unknown fields are dropped.
+export function validateConfig(input: any): { config: Config, errors: ConfigErrors } {
+    const config = { ...DEFAULT_CONFIG };
+    const errors: ConfigErrors = {};
+    for (const key of Object.keys(SCHEMA) as (keyof Config)[]) {
+        if (!input || input[key] === undefined) continue;
+        const error = SCHEMA[key](input[key]);
+        if (error) errors[key] = error;
+        else (config as any)[key] = input[key];
+    }
+    if (!config.presets.some(p => p.id === config.activePreset)) {
+        if (!errors.activePreset && !errors.presets) errors.activePreset = 'must name an existing preset';
+        config.activePreset = config.presets[0].id;
+    }
+    return { config, errors };
+}
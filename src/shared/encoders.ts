@@ -0,0 +1,16 @@
+export interface EncoderStatus {
+    id: string;
+    label: string;
+    // Listed by the bundled FFmpeg and passed a short test encode on this machine
+    available: boolean;
+    error: string | null;
+}
+
+// Sent to the renderer when the recorder had to switch away from the configured encoder
+export interface EncoderFallback {
+    from: string;
+    to: string;
+    reason: string;
+}
+
+export const DEFAULT_ENCODER_FALLBACK = ['h264_nvenc', 'h264_qsv', 'h264_amf', 'h264_vaapi', 'libx264'];
@@ -0,0 +1,16 @@
+// Shared between the main process and the renderer
+
+export type ExportJobState = 'queued' | 'running' | 'done' | 'failed' | 'cancelled';
+
+export interface ExportJob {
+    id: string;
+    // Source clip's file name
+    clip: string;
+    presetName: string;
+    state: ExportJobState;
+    // 0..1 across all passes
+    progress: number;
+    // Full path of the exported file once it's done
+    output: string | null;
+    error: string | null;
+}
@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+import { ClipNameContext, formatClipDuration, unknownTokens, sanitizeSegment, renderClipPath } from './filenames';
+
+const ctx: ClipNameContext = {
+    kind: 'Replay',
+    // Local time, like the tokens
+    date: new Date(2024, 0, 5, 9, 7, 3),
+    duration: 125,
+    preset: 'Default',
+    app: 'Desktop',
+    counter: 7,
+    marker: ''
+};
+
+describe('renderClipPath', () => {
+    it('fills the default template', () => {
+        expect(renderClipPath('', 'ShadowWarp_{kind}_{date}_{time}', ctx)).toBe('ShadowWarp_Replay_2024-01-05_09-07-03');
+    });
+
+    it('fills every token', () => {
+        expect(renderClipPath('', '{yyyy}{mm}{dd} {hh}{min}{ss} {duration} {preset} {app} {counter} {marker}', { ...ctx, marker: 'ace' }))
+            .toBe('20240105 090703 2m05s Default Desktop 0007 ace');
+    });
+
+    it('makes subfolders from the folder template only', () => {
+        expect(renderClipPath('{app}/{yyyy}-{mm}', '{kind}', ctx)).toBe('Desktop/2024-01/Replay');
+        expect(renderClipPath('', 'a/b\\{kind}', ctx)).toBe('a_b_Replay');
+        expect(renderClipPath('{app}', '{kind}', { ...ctx, app: 'Half/Life' })).toBe('Half_Life/Replay');
+    });
+
+    it('drops empty values along with their separator', () => {
+        expect(renderClipPath('', '{kind}_{marker}_{date}', ctx)).toBe('Replay_2024-01-05');
+        expect(renderClipPath('', '{kind} {duration}', { ...ctx, duration: null })).toBe('Replay');
+    });
+
+    it('stays inside the output folder', () => {
+        expect(renderClipPath('../{app}/./..', '{kind}', ctx)).toBe('Desktop/Replay');
+    });
+
+    it('falls back to the default name when nothing is left', () => {
+        expect(renderClipPath('', '{marker}', ctx)).toBe('ShadowWarp_Replay_2024-01-05_09-07-03');
+    });
+
+    it('leaves unknown tokens as written', () => {
+        expect(renderClipPath('', '{kind}_{game}', ctx)).toBe('Replay_{game}');
+    });
+});
+
+describe('sanitizeSegment', () => {
+    it('replaces characters no OS allows', () => {
+        expect(sanitizeSegment('a<b>c:d"e|f?g*h')).toBe('a_b_c_d_e_f_g_h');
+    });
+
+    it('trims dots, spaces and separators from the ends', () => {
+        expect(sanitizeSegment(' .clip_. ')).toBe('clip');
+        expect(sanitizeSegment('..')).toBe('');
+    });
+
+    it('avoids Windows device names', () => {
+        expect(sanitizeSegment('CON')).toBe('CON_');
+        expect(sanitizeSegment('lpt1.txt')).toBe('lpt1.txt_');
+        expect(sanitizeSegment('console')).toBe('console');
+    });
+
+    it('bounds the length', () => {
+        expect(sanitizeSegment('x'.repeat(300))).toHaveLength(120);
+    });
+});
+
+describe('unknownTokens', () => {
+    it('lists tokens that aren\'t known', () => {
+        expect(unknownTokens('{kind}_{game}_{date}_{level}')).toEqual(['game', 'level']);
+        expect(unknownTokens('{kind} {counter}')).toEqual([]);
+    });
+});
+
+describe('formatClipDuration', () => {
+    it('uses minutes from a minute up', () => {
+        expect(formatClipDuration(59.6)).toBe('1m00s');
+        expect(formatClipDuration(45)).toBe('45s');
+        expect(formatClipDuration(3605)).toBe('60m05s');
+    });
+});
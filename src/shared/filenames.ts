@@ -0,0 +1,101 @@
+// Clip file name templates, shared so the settings preview renders exactly what the main
+// process writes. Tokens are filled in local time and the result is sanitized into a
+// relative path that's valid on every OS.
+
+export interface ClipNameContext {
+    // What's being saved: Replay, Session, Recovered
+    kind: string;
+    date: Date;
+    // Seconds, or null when not known up front (sessions)
+    duration: number | null;
+    preset: string;
+    app: string;
+    counter: number;
+    marker: string;
+}
+
+export const CLIP_NAME_TOKENS: { token: string, description: string }[] = [
+    { token: 'kind', description: 'Replay, Session or Recovered' },
+    { token: 'date', description: 'yyyy-mm-dd' },
+    { token: 'time', description: 'hh-mm-ss, 24-hour' },
+    { token: 'yyyy', description: 'year' },
+    { token: 'mm', description: 'month, 01-12' },
+    { token: 'dd', description: 'day of the month' },
+    { token: 'hh', description: 'hour, 00-23' },
+    { token: 'min', description: 'minute' },
+    { token: 'ss', description: 'second' },
+    { token: 'duration', description: 'clip length, e.g. 2m05s' },
+    { token: 'preset', description: 'active capture preset' },
+    { token: 'app', description: 'captured window, or "Desktop"' },
+    { token: 'counter', description: 'running number, 0001 and up' },
+    { token: 'marker', description: 'label of the last bookmark in the clip' }
+];
+
+const TOKEN = /([ _.-]?)\{(\w+)\}/g;
+const INVALID_CHARS = /[<>:"/\\|?*\x00-\x1f]/g;
+// Device names Windows refuses as file names, with or without an extension
+const RESERVED_NAMES = /^(con|prn|aux|nul|com[1-9]|lpt[1-9])(\..*)?$/i;
+const MAX_SEGMENT_LENGTH = 120;
+
+const pad = (n: number, width = 2) => String(n).padStart(width, '0');
+
+export function formatClipDuration(seconds: number) {
+    const total = Math.round(seconds);
+    return total >= 60 ? `${Math.floor(total / 60)}m${pad(total % 60)}s` : `${total}s`;
+}
+
+function tokenValues(ctx: ClipNameContext): Record<string, string> {
+    const d = ctx.date;
+    const yyyy = String(d.getFullYear());
+    const mm = pad(d.getMonth() + 1);
+    const dd = pad(d.getDate());
+    const hh = pad(d.getHours());
+    const min = pad(d.getMinutes());
+    const ss = pad(d.getSeconds());
+    return {
+        kind: ctx.kind,
+        date: `${yyyy}-${mm}-${dd}`,
+        time: `${hh}-${min}-${ss}`,
+        yyyy, mm, dd, hh, min, ss,
+        duration: ctx.duration !== null ? formatClipDuration(ctx.duration) : '',
+        preset: ctx.preset,
+        app: ctx.app,
+        counter: pad(ctx.counter, 4),
+        marker: ctx.marker
+    };
+}
+
+// Tokens in `template` that aren't known, for validation
+export function unknownTokens(template: string) {
+    const known = new Set(CLIP_NAME_TOKENS.map(t => t.token));
+    return [...template.matchAll(TOKEN)].map(m => m[2]).filter(t => !known.has(t));
+}
+
+// One file or folder name made safe everywhere: no reserved characters or device names,
+// no leading/trailing dots, spaces or separators, and a bounded length
+export function sanitizeSegment(segment: string) {
+    let safe = segment.replace(INVALID_CHARS, '_').slice(0, MAX_SEGMENT_LENGTH).replace(/^[ ._-]+|[ ._-]+$/g, '');
+    if (RESERVED_NAMES.test(safe)) safe = `${safe}_`;
+    return safe;
+}
+
+// Fills the tokens in; an empty value also drops the separator in front of it so
+// "{date}_{marker}" doesn't leave a dangling "_". Values never create folders.
+function fill(template: string, values: Record<string, string>) {
+    return template.replace(TOKEN, (match, separator: string, token: string) => {
+        if (!(token in values)) return match;
+        const value = values[token].replace(/[/\\]/g, '_');
+        return value ? separator + value : '';
+    });
+}
+
+// Relative path of a clip, with forward slashes and without the extension. The folder
+// template's slashes make subfolders; "." and ".." segments are dropped so the result
+// always stays inside the output folder.
+export function renderClipPath(folderTemplate: string, nameTemplate: string, ctx: ClipNameContext) {
+    const values = tokenValues(ctx);
+    const folders = folderTemplate.split(/[/\\]/).map(part => sanitizeSegment(fill(part, values))).filter(Boolean);
+    const name = sanitizeSegment(fill(nameTemplate.replace(/[/\\]/g, '_'), values))
+        || `ShadowWarp_${ctx.kind}_${values.date}_${values.time}`;
+    return [...folders, name].join('/');
+}
@@ -0,0 +1,112 @@
+import { describe, it, expect } from 'vitest';
+import {
+    HotkeyBinding, describeDuration, parseShortcut, normalizeShortcut, shortcutLabel, shortcutFromEvent,
+    hotkeyConflict, findHotkeyConflicts
+} from './hotkeys';
+
+const binding = (keys: string, extra: Partial<HotkeyBinding> = {}): HotkeyBinding => ({ keys, action: 'save-replay', seconds: 0, ...extra });
+
+describe('parseShortcut', () => {
+    it('reads modifiers and the main key', () => {
+        const shortcut = parseShortcut('Ctrl+Shift+KeyS');
+        expect(shortcut?.key).toBe('KeyS');
+        expect([...shortcut!.modifiers]).toEqual(['Ctrl', 'Shift']);
+    });
+
+    it('accepts "+" as the main key', () => {
+        expect(normalizeShortcut('Ctrl++')).toBe('Ctrl+Equal');
+    });
+
+    it('rejects unknown keys and modifiers', () => {
+        expect(parseShortcut('Ctrl+Banana')).toBeNull();
+        expect(parseShortcut('Hyper+KeyA')).toBeNull();
+        expect(parseShortcut('')).toBeNull();
+    });
+});
+
+describe('normalizeShortcut', () => {
+    it('upgrades accelerator names and characters to codes', () => {
+        expect(normalizeShortcut('CommandOrControl+s')).toBe('Ctrl+KeyS');
+        expect(normalizeShortcut('Option+1')).toBe('Alt+Digit1');
+        expect(normalizeShortcut('Super+/')).toBe('Meta+Slash');
+        expect(normalizeShortcut('Esc')).toBe('Escape');
+        expect(normalizeShortcut('Mouse4')).toBe('Mouse4');
+    });
+
+    it('puts modifiers in a fixed order', () => {
+        expect(normalizeShortcut('Shift+Alt+Ctrl+F9')).toBe('Ctrl+Alt+Shift+F9');
+    });
+});
+
+describe('shortcutLabel', () => {
+    it('reads the way the key is printed', () => {
+        expect(shortcutLabel('Ctrl+Shift+KeyS')).toBe('Ctrl+Shift+S');
+        expect(shortcutLabel('Alt+Digit5')).toBe('Alt+5');
+        expect(shortcutLabel('Numpad5')).toBe('Num 5');
+        expect(shortcutLabel('NumpadAdd')).toBe('Num +');
+        expect(shortcutLabel('Mouse4')).toBe('Mouse Back');
+    });
+
+    it('leaves text it can\'t parse alone', () => {
+        expect(shortcutLabel('Hyper+Q')).toBe('Hyper+Q');
+    });
+});
+
+describe('shortcutFromEvent', () => {
+    const none = { ctrlKey: false, altKey: false, shiftKey: false, metaKey: false };
+
+    it('combines the held modifiers with the key', () => {
+        expect(shortcutFromEvent({ ...none, shiftKey: true, ctrlKey: true }, 'KeyR')).toBe('Ctrl+Shift+KeyR');
+        expect(shortcutFromEvent(none, 'Mouse5')).toBe('Mouse5');
+    });
+
+    it('ignores lone modifiers and keys a hotkey can\'t use', () => {
+        expect(shortcutFromEvent({ ...none, ctrlKey: true }, 'ControlLeft')).toBeNull();
+        expect(shortcutFromEvent(none, 'AudioVolumeUp')).toBeNull();
+    });
+});
+
+describe('hotkeyConflict', () => {
+    it('flags the same combo and trigger, however it was written', () => {
+        expect(hotkeyConflict(binding('Ctrl+KeyS'), binding('Control+s', { trigger: 'press' })))
+            .toBe('Ctrl+S is already used by another hotkey');
+    });
+
+    it('flags a press sharing a combo with a hold or double-tap', () => {
+        expect(hotkeyConflict(binding('F9'), binding('F9', { trigger: 'hold' })))
+            .toBe('F9 (press) clashes with F9 (hold) on another hotkey');
+        expect(hotkeyConflict(binding('F9', { trigger: 'double-tap' }), binding('F9')))
+            .toBe('F9 (double-tap) clashes with F9 (press) on another hotkey');
+    });
+
+    it('lets a hold and a double-tap share a combo', () => {
+        expect(hotkeyConflict(binding('F9', { trigger: 'hold' }), binding('F9', { trigger: 'double-tap' }))).toBeNull();
+    });
+
+    it('ignores different combos and unset ones', () => {
+        expect(hotkeyConflict(binding('F9'), binding('Shift+F9'))).toBeNull();
+        expect(hotkeyConflict(binding(''), binding(''))).toBeNull();
+    });
+});
+
+describe('findHotkeyConflicts', () => {
+    it('reports each binding against the first earlier one it clashes with', () => {
+        const conflicts = findHotkeyConflicts([
+            binding('F9'),
+            binding('F10'),
+            binding('F9', { trigger: 'hold' }),
+            binding('F10')
+        ]);
+        expect([...conflicts.keys()]).toEqual([2, 3]);
+        expect(conflicts.get(3)).toBe('F10 is already used by another hotkey');
+    });
+});
+
+describe('describeDuration', () => {
+    it('uses the offered labels and falls back to minutes or seconds', () => {
+        expect(describeDuration(60)).toBe('Last 1 minute');
+        expect(describeDuration(0)).toBe('Whole buffer');
+        expect(describeDuration(600)).toBe('Last 10 minutes');
+        expect(describeDuration(45)).toBe('Last 45 seconds');
+    });
+});
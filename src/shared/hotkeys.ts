@@ -0,0 +1,194 @@
+// Shared between the main process and the renderer
+
+// 'push-to-talk' keeps the microphone muted in recordings except while its key is held;
+// 'toggle-mic' mutes and unmutes it
+export type HotkeyAction = 'save-replay' | 'switch-preset' | 'mark' | 'toggle-session' | 'push-to-talk' | 'toggle-mic';
+
+// 'press' fires as soon as the combo goes down, 'hold' once it has been held for `holdMs`,
+// 'double-tap' on the second press in quick succession
+export type HotkeyTrigger = 'press' | 'hold' | 'double-tap';
+
+export interface HotkeyBinding {
+    // Modifiers, then the main key as a DOM KeyboardEvent.code or a mouse button, e.g. "Alt+F10",
+    // "Ctrl+Shift+KeyS", "Mouse4". Empty while not set.
+    keys: string;
+    action: HotkeyAction;
+    // Defaults to 'press'
+    trigger?: HotkeyTrigger;
+    // How long a 'hold' trigger needs the combo held, in milliseconds
+    holdMs?: number;
+    // Replay length for 'save-replay'; 0 saves the whole buffer
+    seconds: number;
+    // Capture preset id for 'switch-preset'
+    preset?: string;
+    // Bookmark label for 'mark'; unlabelled bookmarks are numbered "Mark 1", "Mark 2"... per clip
+    label?: string;
+}
+
+// Offered by the tray menu, the dashboard and the hotkey editor
+export const REPLAY_DURATIONS = [
+    { label: 'Last 30 seconds', seconds: 30 },
+    { label: 'Last 1 minute', seconds: 60 },
+    { label: 'Last 2 minutes', seconds: 120 },
+    { label: 'Last 5 minutes', seconds: 300 },
+    { label: 'Whole buffer', seconds: 0 }
+];
+
+export const DEFAULT_HOTKEYS: HotkeyBinding[] = [
+    { keys: 'Alt+F10', action: 'save-replay', seconds: 0 }
+];
+
+// Label for a replay length, including ones REPLAY_DURATIONS doesn't offer
+export function describeDuration(seconds: number) {
+    const preset = REPLAY_DURATIONS.find(d => d.seconds === seconds);
+    if (preset) return preset.label;
+    return seconds % 60 === 0 ? `Last ${seconds / 60} minutes` : `Last ${seconds} seconds`;
+}
+
+// Two presses closer together than this make a double-tap
+export const DOUBLE_TAP_MS = 300;
+export const DEFAULT_HOLD_MS = 500;
+
+const MODIFIERS = ['Ctrl', 'Alt', 'Shift', 'Meta'] as const;
+type Modifier = typeof MODIFIERS[number];
+
+// Older configs stored Electron accelerator names
+const MODIFIER_ALIASES: Record<string, Modifier> = {
+    Ctrl: 'Ctrl', Control: 'Ctrl', CommandOrControl: 'Ctrl', CmdOrCtrl: 'Ctrl', Command: 'Ctrl', Cmd: 'Ctrl',
+    Alt: 'Alt', Option: 'Alt',
+    Shift: 'Shift',
+    Meta: 'Meta', Super: 'Meta', Win: 'Meta'
+};
+
+// Mouse side buttons, named after their DOM MouseEvent.button + 1 (back, forward)
+export const MOUSE_BUTTONS = ['Mouse4', 'Mouse5'] as const;
+
+const NAMED_CODES = [
+    'Backspace', 'Tab', 'Enter', 'CapsLock', 'Escape', 'Space', 'PageUp', 'PageDown', 'End', 'Home',
+    'ArrowLeft', 'ArrowUp', 'ArrowRight', 'ArrowDown', 'Insert', 'Delete',
+    'Semicolon', 'Equal', 'Comma', 'Minus', 'Period', 'Slash', 'Backquote', 'BracketLeft', 'Backslash', 'BracketRight', 'Quote',
+    'NumpadMultiply', 'NumpadAdd', 'NumpadSubtract', 'NumpadDecimal', 'NumpadDivide', 'NumpadEnter',
+    'NumLock', 'ScrollLock', 'PrintScreen'
+];
+
+// Every main key a hotkey can use: DOM KeyboardEvent.code values the global hook can report
+export const KEY_CODES: string[] = [
+    ...'ABCDEFGHIJKLMNOPQRSTUVWXYZ'.split('').map(c => `Key${c}`),
+    ...'0123456789'.split('').map(d => `Digit${d}`),
+    ...'0123456789'.split('').map(d => `Numpad${d}`),
+    ...Array.from({ length: 24 }, (_, i) => `F${i + 1}`),
+    ...NAMED_CODES
+];
+
+const VALID_KEYS = new Set<string>([...KEY_CODES, ...MOUSE_BUTTONS]);
+
+// Characters older configs stored instead of codes (KeyboardEvent.key, US layout)
+const CHARACTER_CODES: Record<string, string> = {
+    ';': 'Semicolon', '=': 'Equal', ',': 'Comma', '-': 'Minus', '.': 'Period', '/': 'Slash', '`': 'Backquote',
+    '[': 'BracketLeft', '\\': 'Backslash', ']': 'BracketRight', "'": 'Quote',
+    ':': 'Semicolon', '+': 'Equal', '<': 'Comma', '_': 'Minus', '>': 'Period', '?': 'Slash', '~': 'Backquote',
+    '{': 'BracketLeft', '|': 'Backslash', '}': 'BracketRight', '"': 'Quote',
+    '!': 'Digit1', '@': 'Digit2', '#': 'Digit3', '$': 'Digit4', '%': 'Digit5',
+    '^': 'Digit6', '&': 'Digit7', '*': 'Digit8', '(': 'Digit9', ')': 'Digit0',
+    ' ': 'Space', Esc: 'Escape', Return: 'Enter', Up: 'ArrowUp', Down: 'ArrowDown', Left: 'ArrowLeft', Right: 'ArrowRight',
+    Plus: 'Equal', PrintScr: 'PrintScreen', PrtSc: 'PrintScreen'
+};
+
+export interface Shortcut {
+    modifiers: Set<Modifier>;
+    // A KEY_CODES entry or a mouse button
+    key: string;
+}
+
+function keyCode(name: string): string | null {
+    if (VALID_KEYS.has(name)) return name;
+    if (/^[a-z]$/i.test(name)) return `Key${name.toUpperCase()}`;
+    if (/^[0-9]$/.test(name)) return `Digit${name}`;
+    return CHARACTER_CODES[name] || null;
+}
+
+// Reads a stored combo, including the accelerator names and characters older versions saved.
+// Null when it isn't one.
+export function parseShortcut(keys: string): Shortcut | null {
+    // "+" on its own is a key, so split on the separators in front of each part
+    const parts = keys.split(/\+(?=.)/);
+    const key = keyCode(parts.pop() || '');
+    if (!key) return null;
+    const modifiers = new Set<Modifier>();
+    for (const part of parts) {
+        const modifier = MODIFIER_ALIASES[part];
+        if (!modifier) return null;
+        modifiers.add(modifier);
+    }
+    return { modifiers, key };
+}
+
+// Modifiers in a fixed order, so equal combos are equal strings
+export function formatShortcut(shortcut: Shortcut) {
+    return [...MODIFIERS.filter(m => shortcut.modifiers.has(m)), shortcut.key].join('+');
+}
+
+export function normalizeShortcut(keys: string) {
+    const shortcut = parseShortcut(keys);
+    return shortcut ? formatShortcut(shortcut) : null;
+}
+
+const KEY_LABELS: Record<string, string> = {
+    ArrowLeft: 'Left', ArrowUp: 'Up', ArrowRight: 'Right', ArrowDown: 'Down', Escape: 'Esc',
+    Semicolon: ';', Equal: '=', Comma: ',', Minus: '-', Period: '.', Slash: '/', Backquote: '`',
+    BracketLeft: '[', Backslash: '\\', BracketRight: ']', Quote: "'",
+    NumpadMultiply: 'Num *', NumpadAdd: 'Num +', NumpadSubtract: 'Num -', NumpadDecimal: 'Num .', NumpadDivide: 'Num /', NumpadEnter: 'Num Enter',
+    Mouse4: 'Mouse Back', Mouse5: 'Mouse Forward'
+};
+
+// How a combo reads in the UI, e.g. "Ctrl+Shift+S", "Num 5", "Mouse Back"
+export function shortcutLabel(keys: string) {
+    const shortcut = parseShortcut(keys);
+    if (!shortcut) return keys;
+    const key = KEY_LABELS[shortcut.key]
+        || shortcut.key.replace(/^Key(.)$/, '$1').replace(/^Digit(.)$/, '$1').replace(/^Numpad(\d)$/, 'Num $1');
+    return [...MODIFIERS.filter(m => shortcut.modifiers.has(m)), key].join('+');
+}
+
+// Combo for a key or mouse button pressed in the hotkey editor; null for a lone modifier
+// or anything a global hotkey can't use
+export function shortcutFromEvent(e: { ctrlKey: boolean, altKey: boolean, shiftKey: boolean, metaKey: boolean }, key: string) {
+    if (!VALID_KEYS.has(key)) return null;
+    const modifiers = new Set<Modifier>();
+    if (e.ctrlKey) modifiers.add('Ctrl');
+    if (e.altKey) modifiers.add('Alt');
+    if (e.shiftKey) modifiers.add('Shift');
+    if (e.metaKey) modifiers.add('Meta');
+    return formatShortcut({ modifiers, key });
+}
+
+export const TRIGGER_LABELS: Record<HotkeyTrigger, string> = { press: 'Press', hold: 'Hold', 'double-tap': 'Double-tap' };
+
+// Why two bindings can't share their combo, or null when they can. A press already fires on the
+// first tap of a double-tap and at the start of a hold, and a shorter hold fires before a longer
+// one; only a hold and a double-tap on the same combo can be told apart.
+export function hotkeyConflict(a: HotkeyBinding, b: HotkeyBinding): string | null {
+    if (!a.keys || !b.keys || normalizeShortcut(a.keys) !== normalizeShortcut(b.keys)) return null;
+    const ta = a.trigger || 'press';
+    const tb = b.trigger || 'press';
+    if ((ta === 'hold' && tb === 'double-tap') || (ta === 'double-tap' && tb === 'hold')) return null;
+    const label = shortcutLabel(a.keys);
+    return ta === tb
+        ? `${label} is already used by another hotkey`
+        : `${label} (${TRIGGER_LABELS[ta].toLowerCase()}) clashes with ${label} (${TRIGGER_LABELS[tb].toLowerCase()}) on another hotkey`;
+}
+
+// Binding index -> why it clashes with an earlier one
+export function findHotkeyConflicts(bindings: HotkeyBinding[]) {
+    const conflicts = new Map<number, string>();
+    bindings.forEach((binding, i) => {
+        for (let j = 0; j < i; j++) {
+            const conflict = hotkeyConflict(binding, bindings[j]);
+            if (conflict) {
+                conflicts.set(i, conflict);
+                break;
+            }
+        }
+    });
+    return conflicts;
+}
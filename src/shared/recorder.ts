@@ -0,0 +1,13 @@
+// 'restarting' and 'failed' mean FFmpeg exited on its own; the buffer is kept in both
+export type RecorderState = 'idle' | 'recording' | 'restarting' | 'failed';
+
+export interface RecorderStatus {
+    state: RecorderState;
+    // Why the recorder last exited unexpectedly
+    reason: string | null;
+    // Restart attempts since the recorder was last healthy
+    attempt: number;
+    maxAttempts: number;
+    // Epoch ms of the next restart while 'restarting'
+    retryAt: number | null;
+}
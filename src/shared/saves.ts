@@ -0,0 +1,17 @@
+// Shared between the main process and the renderer
+
+// 'dumping': copying the buffer range to a temp file; 'remuxing': FFmpeg writing the MP4
+export type SaveJobState = 'queued' | 'dumping' | 'remuxing' | 'done' | 'failed' | 'cancelled';
+
+export interface SaveJob {
+    id: string;
+    requestedAt: number;
+    // Seconds of video in the snapshot
+    duration: number;
+    state: SaveJobState;
+    // 0..1 within the current stage
+    progress: number;
+    // Full path of the clip being written
+    output: string;
+    error: string | null;
+}
@@ -0,0 +1,12 @@
+// Shared between the main process and the renderer
+
+export interface SessionStatus {
+    active: boolean;
+    startedAt: number | null;
+    // Written so far across all parts, pre-roll included
+    bytes: number;
+    // Number of the part currently being written, from 1
+    part: number;
+}
+
+export const IDLE_SESSION: SessionStatus = { active: false, startedAt: null, bytes: 0, part: 0 };
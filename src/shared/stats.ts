@@ -0,0 +1,21 @@
+export interface RecorderWarning {
+    kind: 'slow' | 'fps' | 'dropped';
+    message: string;
+}
+
+// Sent to the renderer about once a second while recording
+export interface RecorderStats {
+    encoder: string;
+    fps: number;
+    targetFps: number;
+    // Kbit/s, null until FFmpeg can estimate it
+    bitrateKbps: number | null;
+    speed: number | null;
+    // Totals since recording started
+    droppedFrames: number;
+    duplicatedFrames: number;
+    // How much of the buffer a whole-buffer save would contain right now
+    bufferedSeconds: number;
+    bufferedBytes: number;
+    warnings: RecorderWarning[];
+}